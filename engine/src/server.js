@@ -1,6 +1,8 @@
 import http from "node:http";
 import { WebSocketServer } from "ws";
 import { randomUUID } from "node:crypto";
+import { authFromEnv } from "../../src/auth.js";
+import { exitOnSignals, shutdownGracefully, shutdownTimeoutFromEnv } from "../../src/shutdown.js";
 
 // @ts-check
 
@@ -10,11 +12,28 @@ import { randomUUID } from "node:crypto";
  * @typedef {{ type: "execution"; eventId: string; orderId: string; executedQuantity: number }} ExecutionEvent
  */
 
+// Optional auth (API_KEYS / AUTH_TOKEN_SECRET, see src/auth.js at the repo root):
+// POST /orders needs "trade", the /ws stream needs "read"
+const auth = authFromEnv();
+
 /** @type {Map<string, Order>} */
 const orders = new Map();
 /** @type {Set<string>} */
 const processedEventIds = new Set();
 
+// Ping WS clients this often; a client that misses a pong is terminated (0 disables)
+const HEARTBEAT_INTERVAL_MS = Number(process.env.HEARTBEAT_INTERVAL_MS ?? 30_000);
+/** @type {WeakMap<import("ws").WebSocket, boolean>} */
+const wsAlive = new WeakMap();
+let wsDeadCount = 0;
+
+// The stream is JSON only, so only the JSON subprotocol is accepted (see
+// src/codec.ts); ws would otherwise agree to whatever a client offers first
+const JSON_SUBPROTOCOL = "flowdesk.json.v1";
+
+// Drain deadline on SIGTERM/SIGINT (see src/shutdown.js at the repo root)
+const SHUTDOWN_TIMEOUT_MS = shutdownTimeoutFromEnv();
+
 /**
  * @param {http.ServerResponse} res
  * @param {number} status
@@ -27,9 +46,17 @@ function json(res, status, body) {
 }
 
 const server = http.createServer(async (req, res) => {
-  if (req.method === "GET" && req.url === "/health") return json(res, 200, { ok: true });
+  if (req.method === "GET" && req.url === "/health") {
+    return json(res, 200, { ok: true, ws: { live: wss.clients.size, dead: wsDeadCount } });
+  }
 
   if (req.method === "POST" && req.url === "/orders") {
+    const access = auth.authorize(req, "trade");
+    if (!access.ok) {
+      const { status, ...body } = access;
+      return json(res, status, body);
+    }
+
     let raw = "";
     req.on("data", (c) => (raw += c));
     req.on("end", () => {
@@ -52,7 +79,10 @@ const server = http.createServer(async (req, res) => {
   json(res, 404, { error: "not_found" });
 });
 
-const wss = new WebSocketServer({ noServer: true });
+const wss = new WebSocketServer({
+  noServer: true,
+  handleProtocols: (offered) => (offered.has(JSON_SUBPROTOCOL) ? JSON_SUBPROTOCOL : false),
+});
 
 /**
  * @param {ExecutionEvent} evt
@@ -94,21 +124,44 @@ function applyExecution(evt) {
 
 wss.on("connection", (ws) => {
   console.log(`New WS client connected, total clients: ${wss.clients.size}`);
+  wsAlive.set(ws, true);
+  ws.on("pong", () => wsAlive.set(ws, true));
   ws.send(JSON.stringify({ type: "hello", ok: true }));
 });
 
+// Heartbeat: terminate half-open clients that didn't answer the previous ping
+const heartbeat = HEARTBEAT_INTERVAL_MS > 0
+  ? setInterval(() => {
+      for (const client of wss.clients) {
+        if (wsAlive.get(client) === false) {
+          wsDeadCount++;
+          console.log("Terminating unresponsive WS client");
+          client.terminate();
+          continue;
+        }
+        wsAlive.set(client, false);
+        client.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+  : undefined;
+
 server.on("upgrade", (req, socket, head) => {
-  if (req.url !== "/ws") {
+  if (new URL(req.url ?? "/", "http://localhost").pathname !== "/ws") {
     socket.destroy();
     return;
   }
+  const access = auth.authorizeUpgrade(req, "read");
+  if (!access.ok) {
+    socket.end(`HTTP/1.1 ${access.status} ${access.status === 401 ? "Unauthorized" : "Forbidden"}\r\nConnection: close\r\n\r\n`);
+    return;
+  }
   wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
 });
 
 // Simple endpoint-less "execution injector" via timer (for demo)
 // Realistic in CI: tests will POST /orders then connect WS and locally trigger event generation.
 // We provide a debug route-like behavior: if an order exists, emit executions every 200ms.
-setInterval(() => {
+const injector = setInterval(() => {
   // emit nothing if no orders
   const first = /** @type {Order | undefined} */ (orders.values().next().value);
   if (!first) return;
@@ -125,5 +178,25 @@ setInterval(() => {
 
 const PORT = Number(process.env.PORT ?? 8080);
 server.listen(PORT, "0.0.0.0", () => {
-  console.log(`engine listening on :${PORT}`);
+  const address = server.address();
+  console.log(`engine listening on :${typeof address === "object" && address ? address.port : PORT}`);
+});
+
+// Stop generating events, then drain HTTP and WS clients before exiting
+exitOnSignals(async () => {
+  clearInterval(injector);
+  clearInterval(heartbeat);
+  const result = await shutdownGracefully({
+    httpServers: [server],
+    wsServers: [wss],
+    timeoutMs: SHUTDOWN_TIMEOUT_MS,
+    flush: [
+      {
+        name: "stats",
+        run: () => console.log(`final state: ${orders.size} orders, ${processedEventIds.size} executions, ${wsDeadCount} dead WS clients`),
+      },
+    ],
+  });
+  console.log(result.completed ? `shut down in ${result.elapsedMs}ms` : "shutdown incomplete");
+  return result;
 });
@@ -0,0 +1,18 @@
+-- Baseline: the tables src/mockEngine.js used to create in initSchema.
+-- IF NOT EXISTS so databases created before migrations are adopted as-is.
+CREATE TABLE IF NOT EXISTS orders (
+  id VARCHAR(50) PRIMARY KEY,
+  quantity INTEGER NOT NULL,
+  filled_quantity INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'OPEN',
+  side VARCHAR(10) NOT NULL DEFAULT 'BUY',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id VARCHAR(50) PRIMARY KEY,
+  balance NUMERIC(20, 2) NOT NULL DEFAULT 1000.00,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
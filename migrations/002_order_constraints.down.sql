@@ -0,0 +1,8 @@
+ALTER TABLE accounts
+  DROP CONSTRAINT IF EXISTS accounts_balance_non_negative;
+
+ALTER TABLE orders
+  DROP CONSTRAINT IF EXISTS orders_side_valid,
+  DROP CONSTRAINT IF EXISTS orders_status_valid,
+  DROP CONSTRAINT IF EXISTS orders_filled_in_range,
+  DROP CONSTRAINT IF EXISTS orders_quantity_positive;
@@ -0,0 +1,12 @@
+-- Same invariants TradingEngine enforces in memory (src/engine.ts).
+-- Fails on existing rows that break them (e.g. orders overfilled before
+-- /execute capped fills); fix or delete those rows, then migrate again.
+ALTER TABLE orders
+  ADD CONSTRAINT orders_quantity_positive CHECK (quantity > 0),
+  ADD CONSTRAINT orders_filled_in_range CHECK (filled_quantity >= 0 AND filled_quantity <= quantity),
+  ADD CONSTRAINT orders_status_valid
+    CHECK (status IN ('OPEN', 'PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'REJECTED', 'EXPIRED')),
+  ADD CONSTRAINT orders_side_valid CHECK (side IN ('BUY', 'SELL'));
+
+ALTER TABLE accounts
+  ADD CONSTRAINT accounts_balance_non_negative CHECK (balance >= 0);
@@ -0,0 +1,15 @@
+-- One row per applied execution. event_id is the idempotency key: the
+-- primary key makes a second insert of the same event fail inside the
+-- /execute transaction, whatever the Redis cache says.
+CREATE TABLE executions (
+  event_id VARCHAR(100) PRIMARY KEY,
+  order_id VARCHAR(50) NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  effective_quantity INTEGER NOT NULL CHECK (effective_quantity > 0 AND effective_quantity <= quantity),
+  price NUMERIC(20, 8) NOT NULL CHECK (price > 0),
+  fee NUMERIC(20, 8) NOT NULL DEFAULT 0 CHECK (fee >= 0),
+  reason VARCHAR(40),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX executions_order_id_created_at_idx ON executions (order_id, created_at);
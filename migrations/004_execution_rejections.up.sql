@@ -0,0 +1,13 @@
+-- Rejected /execute attempts against known orders, for the execution
+-- history (GET /orders/:id/executions). Not keyed by event_id: a rejected
+-- event may be retried and later applied (or rejected again).
+CREATE TABLE execution_rejections (
+  id BIGSERIAL PRIMARY KEY,
+  event_id VARCHAR(100) NOT NULL,
+  order_id VARCHAR(50) NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+  quantity NUMERIC(20, 8),
+  reason VARCHAR(40) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX execution_rejections_order_id_created_at_idx ON execution_rejections (order_id, created_at);
@@ -0,0 +1,13 @@
+DROP INDEX IF EXISTS orders_account_id_idx;
+
+ALTER TABLE orders
+  DROP CONSTRAINT IF EXISTS orders_reserved_non_negative,
+  DROP CONSTRAINT IF EXISTS orders_price_positive,
+  DROP CONSTRAINT IF EXISTS orders_account_fk,
+  DROP COLUMN IF EXISTS reserved,
+  DROP COLUMN IF EXISTS price,
+  DROP COLUMN IF EXISTS account_id;
+
+ALTER TABLE accounts
+  DROP CONSTRAINT IF EXISTS accounts_reserved_non_negative,
+  DROP COLUMN IF EXISTS reserved;
@@ -0,0 +1,22 @@
+-- Orders belong to an account, and open BUY orders reserve funds there.
+--
+-- orders.price is the limit price the reservation is computed from
+-- (quantity * price); orders.reserved is what the order still holds, so
+-- fills, amends and cancels release exactly what was reserved.
+-- accounts.reserved is the sum over the account's orders; what can still
+-- be committed to new orders is balance - reserved.
+INSERT INTO accounts (id, balance) VALUES ('default', 1000000) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE accounts
+  ADD COLUMN reserved NUMERIC(20, 2) NOT NULL DEFAULT 0,
+  ADD CONSTRAINT accounts_reserved_non_negative CHECK (reserved >= 0);
+
+ALTER TABLE orders
+  ADD COLUMN account_id VARCHAR(50) NOT NULL DEFAULT 'default',
+  ADD COLUMN price NUMERIC(20, 8) NOT NULL DEFAULT 1,
+  ADD COLUMN reserved NUMERIC(20, 2) NOT NULL DEFAULT 0,
+  ADD CONSTRAINT orders_account_fk FOREIGN KEY (account_id) REFERENCES accounts (id),
+  ADD CONSTRAINT orders_price_positive CHECK (price > 0),
+  ADD CONSTRAINT orders_reserved_non_negative CHECK (reserved >= 0);
+
+CREATE INDEX orders_account_id_idx ON orders (account_id);
@@ -0,0 +1,235 @@
+// @ts-check
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Authentication for the mock engine's HTTP routes and WebSocket upgrade.
+ *
+ * Plain JS so src/mockEngine.js and engine/src/server.js can import it
+ * without a build step; the JSDoc types are checked by tsc (allowJs).
+ *
+ * Two credential kinds, both sent as `Authorization: Bearer <credential>`
+ * (or `X-API-Key: <key>`; only on the WebSocket upgrade, where browsers
+ * can't set headers, `?access_token=<credential>` works too, see
+ * authorizeUpgrade; anywhere else query strings end up in access logs):
+ * - static API keys, configured as API_KEYS="key1:trade,key2:read"
+ * - HMAC-signed tokens `<base64url(claims)>.<base64url(signature)>`,
+ *   verifiable offline with AUTH_TOKEN_SECRET (no session store)
+ *
+ * Scopes: "read" (list orders, stream executions) and "trade" (create and
+ * change orders, submit executions); trade includes read.
+ *
+ * Auth is disabled when neither API_KEYS nor AUTH_TOKEN_SECRET is set, so
+ * local runs and the existing CI setup keep working unchanged.
+ *
+ * Interview talking points:
+ * - Offline verification keeps the hot path free of network calls
+ * - Token signatures are compared with timingSafeEqual, and API keys are
+ *   looked up by their SHA-256 digest, so response timing can't be used to
+ *   guess either one byte by byte
+ * - Production would add key rotation (kid), audience checks and mTLS
+ */
+
+/**
+ * @typedef {"read" | "trade"} Scope
+ * @typedef {{ sub: string; scope: Scope; exp: number }} TokenClaims  exp: epoch seconds
+ * @typedef {{ id: string; scope: Scope }} Principal
+ * @typedef {"missing_credentials" | "invalid_api_key" | "invalid_token" | "token_expired"} AuthFailure
+ * @typedef {{ ok: true; principal: Principal }
+ *   | { ok: false; status: 401; error: "unauthorized"; reason: AuthFailure }
+ *   | { ok: false; status: 403; error: "forbidden"; reason: "insufficient_scope"; requiredScope: Scope }} AuthResult
+ * @typedef {{ headers: Record<string, string | string[] | undefined>; url?: string | undefined }} RequestLike
+ */
+
+/** @type {readonly Scope[]} */
+export const SCOPES = ["read", "trade"];
+
+/**
+ * Whether a granted scope covers a required one (trade includes read).
+ * @param {Scope} granted
+ * @param {Scope} required
+ * @returns {boolean}
+ */
+export function hasScope(granted, required) {
+  return granted === "trade" || granted === required;
+}
+
+/**
+ * @param {unknown} value
+ * @returns {value is Scope}
+ */
+function isScope(value) {
+  return SCOPES.includes(/** @type {Scope} */ (value));
+}
+
+/**
+ * Parse "key1:trade,key2:read" into key -> scope.
+ * Throws on a malformed entry so a typo fails at startup, not per request.
+ * @param {string | undefined} spec
+ * @returns {Map<string, Scope>}
+ */
+export function parseApiKeys(spec) {
+  /** @type {Map<string, Scope>} */
+  const keys = new Map();
+  for (const entry of (spec ?? "").split(",")) {
+    if (!entry.trim()) continue;
+    const [key, scope] = entry.trim().split(":");
+    if (!key || !isScope(scope)) throw new Error(`Invalid API_KEYS entry: ${entry.trim()}`);
+    keys.set(key, scope);
+  }
+  return keys;
+}
+
+/**
+ * @param {string} data
+ * @param {string} secret
+ * @returns {string}
+ */
+function sign(data, secret) {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+/**
+ * Issue a signed token (for tests, scripts and other services).
+ * @param {TokenClaims} claims
+ * @param {string} secret
+ * @returns {string}
+ */
+export function signToken(claims, secret) {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Check a token's signature, claims and expiry.
+ * @param {string} token
+ * @param {string} secret
+ * @param {number} [nowSeconds]
+ * @returns {{ ok: true; claims: TokenClaims } | { ok: false; reason: "invalid_token" | "token_expired" }}
+ */
+export function verifyToken(token, secret, nowSeconds = Math.floor(Date.now() / 1000)) {
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return { ok: false, reason: "invalid_token" };
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: "invalid_token" };
+  }
+
+  /** @type {Partial<TokenClaims>} */
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, reason: "invalid_token" };
+  }
+  if (typeof claims.sub !== "string" || !isScope(claims.scope) || typeof claims.exp !== "number") {
+    return { ok: false, reason: "invalid_token" };
+  }
+  if (claims.exp <= nowSeconds) return { ok: false, reason: "token_expired" };
+
+  return { ok: true, claims: /** @type {TokenClaims} */ (claims) };
+}
+
+/**
+ * @param {string} key
+ * @returns {string}
+ */
+function digest(key) {
+  return createHash("sha256").update(key).digest("base64url");
+}
+
+/**
+ * Pull the credential from Authorization or X-API-Key, and from
+ * ?access_token= when `allowQuery` is set (WS upgrades only).
+ * @param {RequestLike} req
+ * @param {boolean} allowQuery
+ * @returns {string | undefined}
+ */
+function credentialOf(req, allowQuery) {
+  const authorization = req.headers.authorization;
+  if (typeof authorization === "string" && authorization.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || undefined;
+  }
+
+  const apiKey = req.headers["x-api-key"];
+  if (typeof apiKey === "string" && apiKey) return apiKey;
+
+  if (allowQuery && req.url) {
+    return new URL(req.url, "http://localhost").searchParams.get("access_token") ?? undefined;
+  }
+  return undefined;
+}
+
+/**
+ * @param {{ apiKeys?: Map<string, Scope>; tokenSecret?: string | undefined; now?: () => number }} options
+ */
+export function createAuthenticator(options) {
+  const apiKeys = options.apiKeys ?? new Map();
+  /** @type {Map<string, Scope>} */
+  const keyScopes = new Map([...apiKeys].map(([key, scope]) => [digest(key), scope]));
+  const tokenSecret = options.tokenSecret || undefined;
+  const now = options.now ?? Date.now;
+  const enabled = apiKeys.size > 0 || tokenSecret !== undefined;
+
+  /**
+   * Identify the caller and check it holds `requiredScope`.
+   * @param {RequestLike} req
+   * @param {Scope} requiredScope
+   * @returns {AuthResult}
+   */
+  function authorize(req, requiredScope) {
+    return check(credentialOf(req, false), requiredScope);
+  }
+
+  /**
+   * Same as authorize, but also accepts ?access_token= (WebSocket upgrade
+   * requests, which browsers can't add headers to).
+   * @param {RequestLike} req
+   * @param {Scope} requiredScope
+   * @returns {AuthResult}
+   */
+  function authorizeUpgrade(req, requiredScope) {
+    return check(credentialOf(req, true), requiredScope);
+  }
+
+  /**
+   * @param {string | undefined} credential
+   * @param {Scope} requiredScope
+   * @returns {AuthResult}
+   */
+  function check(credential, requiredScope) {
+    if (!enabled) return { ok: true, principal: { id: "anonymous", scope: "trade" } };
+    if (!credential) return { ok: false, status: 401, error: "unauthorized", reason: "missing_credentials" };
+
+    /** @type {Principal} */
+    let principal;
+    const keyDigest = digest(credential);
+    const keyScope = keyScopes.get(keyDigest);
+    if (keyScope) {
+      // Identified by its digest: principal ids end up in logs, key material must not
+      principal = { id: `api-key:${keyDigest.slice(0, 8)}`, scope: keyScope };
+    } else if (tokenSecret && credential.includes(".")) {
+      const verified = verifyToken(credential, tokenSecret, Math.floor(now() / 1000));
+      if (!verified.ok) return { ok: false, status: 401, error: "unauthorized", reason: verified.reason };
+      principal = { id: verified.claims.sub, scope: verified.claims.scope };
+    } else {
+      return { ok: false, status: 401, error: "unauthorized", reason: "invalid_api_key" };
+    }
+
+    if (!hasScope(principal.scope, requiredScope)) {
+      return { ok: false, status: 403, error: "forbidden", reason: "insufficient_scope", requiredScope };
+    }
+    return { ok: true, principal };
+  }
+
+  return { enabled, authorize, authorizeUpgrade };
+}
+
+/**
+ * Authenticator configured from API_KEYS and AUTH_TOKEN_SECRET.
+ * @param {Record<string, string | undefined>} [env]
+ */
+export function authFromEnv(env = process.env) {
+  return createAuthenticator({ apiKeys: parseApiKeys(env.API_KEYS), tokenSecret: env.AUTH_TOKEN_SECRET });
+}
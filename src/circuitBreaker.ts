@@ -0,0 +1,138 @@
+import { EventEmitter } from "node:events";
+
+/**
+ *   closed --(too many errors/rejections)--> open --(cooldown)--> half_open
+ *     ^                                        ^                      |
+ *     |                                        +------(failure)-------+
+ *     +-------------------(trial successes)---------------------------+
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/** success covers applied events and harmless duplicates */
+export type CallOutcome = "success" | "rejection" | "error";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive errors (throws) that trip the breaker (default 1) */
+  errorThreshold?: number;
+  /** Share of failed calls (rejections + errors) in the window that trips it, 0..1 (default 0.5) */
+  failureRateThreshold?: number;
+  /** Number of most recent calls the failure rate is computed over (default 20) */
+  windowSize?: number;
+  /** Calls needed in the window before the rate is considered (default 10) */
+  minimumCalls?: number;
+  /** Time spent open before trial calls are let through (default 5000) */
+  cooldownMs?: number;
+  /** Successful trial calls that close the breaker again (default 3) */
+  halfOpenSuccesses?: number;
+}
+
+export interface CircuitTransition {
+  from: CircuitState;
+  to: CircuitState;
+  reason: "errors" | "failure_rate" | "cooldown_elapsed" | "trial_failed" | "trial_succeeded";
+  failureRate?: number;   // failure_rate: the rate that tripped it
+}
+
+export interface CircuitBreakerEvents {
+  transition: [CircuitTransition];
+}
+
+const DEFAULTS: Required<CircuitBreakerOptions> = {
+  errorThreshold: 1,
+  failureRateThreshold: 0.5,
+  windowSize: 20,
+  minimumCalls: 10,
+  cooldownMs: 5000,
+  halfOpenSuccesses: 3,
+};
+
+/**
+ * Count-based circuit breaker. It runs nothing itself: callers ask
+ * canExecute() before a call and record() its outcome afterwards, which
+ * keeps it usable for synchronous engine calls as well as async ones.
+ *
+ * The open -> half_open move happens lazily, in canExecute(), once the
+ * cooldown has elapsed; callers that need to act on it (resume a paused
+ * stream) can wait remainingCooldownMs() and then ask.
+ *
+ * Production considerations / Interview talking points:
+ * - A count-based window reacts to bursts; a time-based one (failures per
+ *   second) behaves better for low-volume streams
+ * - Half-open lets a few calls through instead of flooding a component
+ *   that may still be broken
+ * - Cooldown could grow exponentially on repeated trips, like reconnects
+ */
+export class CircuitBreaker {
+  readonly events = new EventEmitter<CircuitBreakerEvents>();
+  private readonly options: Required<CircuitBreakerOptions>;
+  private state: CircuitState = "closed";
+  private window: boolean[] = []; // true = failed call
+  private consecutiveErrors = 0;
+  private trialSuccesses = 0;
+  private openedAt = 0;
+
+  constructor(options: CircuitBreakerOptions = {}, private readonly now: () => number = Date.now) {
+    this.options = { ...DEFAULTS, ...options };
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /** Milliseconds until an open breaker lets trial calls through (0 otherwise) */
+  remainingCooldownMs(): number {
+    if (this.state !== "open") return 0;
+    return Math.max(0, this.openedAt + this.options.cooldownMs - this.now());
+  }
+
+  /**
+   * Whether a call may proceed now. Moves open -> half_open once the
+   * cooldown has elapsed.
+   */
+  canExecute(): boolean {
+    if (this.state === "open" && this.remainingCooldownMs() === 0) {
+      this.trialSuccesses = 0;
+      this.transition("half_open", { reason: "cooldown_elapsed" });
+    }
+    return this.state !== "open";
+  }
+
+  record(outcome: CallOutcome): void {
+    if (this.state === "open") return; // a call that started before the trip
+
+    if (this.state === "half_open") {
+      if (outcome !== "success") {
+        this.trip({ reason: "trial_failed" });
+      } else if (++this.trialSuccesses >= this.options.halfOpenSuccesses) {
+        this.window = [];
+        this.consecutiveErrors = 0;
+        this.transition("closed", { reason: "trial_succeeded" });
+      }
+      return;
+    }
+
+    this.window.push(outcome !== "success");
+    if (this.window.length > this.options.windowSize) this.window.shift();
+    this.consecutiveErrors = outcome === "error" ? this.consecutiveErrors + 1 : 0;
+
+    if (this.consecutiveErrors >= this.options.errorThreshold) {
+      this.trip({ reason: "errors" });
+      return;
+    }
+    if (this.window.length >= this.options.minimumCalls) {
+      const failureRate = this.window.filter(Boolean).length / this.window.length;
+      if (failureRate >= this.options.failureRateThreshold) this.trip({ reason: "failure_rate", failureRate });
+    }
+  }
+
+  private trip(details: Omit<CircuitTransition, "from" | "to">) {
+    this.openedAt = this.now();
+    this.transition("open", details);
+  }
+
+  private transition(to: CircuitState, details: Omit<CircuitTransition, "from" | "to">) {
+    const from = this.state;
+    this.state = to;
+    this.events.emit("transition", { from, to, ...details });
+  }
+}
@@ -0,0 +1,86 @@
+import { decode, encode } from "@msgpack/msgpack";
+import type { ValidationResult } from "./messageValidation.js";
+
+/**
+ * Wire encodings for the execution stream, negotiated per connection with
+ * the WebSocket subprotocol:
+ *
+ * - no subprotocol, or "flowdesk.json.v1": JSON text frames (default)
+ * - "flowdesk.msgpack.v1": MessagePack binary frames
+ *
+ * Consumers only offer a subprotocol when asked for msgpack (with JSON as
+ * a fallback), so JSON consumers keep working against servers that predate
+ * negotiation. The mock engines (src/mockEngine.js, engine/src/server.js)
+ * accept only the JSON subprotocol, and consumers decode text frames as
+ * JSON whatever was negotiated.
+ *
+ * MessagePack frames are smaller (numbers and keys are compact), which
+ * matters on constrained links; V8's JSON.parse/stringify are fast enough
+ * that JSON usually wins on CPU (see `npm run bench`). JSON stays the
+ * default because it is readable in devtools and wscat.
+ */
+export type CodecName = "json" | "msgpack";
+
+export interface Codec {
+  name: CodecName;
+  subprotocol: string;
+  encode(message: unknown): string | Uint8Array;
+  /** Throws on malformed input */
+  decode(data: Buffer): unknown;
+}
+
+export const JSON_SUBPROTOCOL = "flowdesk.json.v1";
+export const MSGPACK_SUBPROTOCOL = "flowdesk.msgpack.v1";
+
+export const jsonCodec: Codec = {
+  name: "json",
+  subprotocol: JSON_SUBPROTOCOL,
+  encode: (message) => JSON.stringify(message),
+  decode: (data) => JSON.parse(data.toString()),
+};
+
+export const msgpackCodec: Codec = {
+  name: "msgpack",
+  subprotocol: MSGPACK_SUBPROTOCOL,
+  // Optional fields left undefined must be absent, not nil (validators reject null)
+  encode: (message) => encode(message, { ignoreUndefined: true }),
+  decode: (data) => decode(data),
+};
+
+export const codecs: Record<CodecName, Codec> = { json: jsonCodec, msgpack: msgpackCodec };
+
+/**
+ * Codec for a negotiated subprotocol ("" when none was agreed: JSON).
+ */
+export function codecForProtocol(protocol: string): Codec {
+  return protocol === MSGPACK_SUBPROTOCOL ? msgpackCodec : jsonCodec;
+}
+
+/**
+ * Server side: pick the subprotocol to accept from the client's offer,
+ * preferring MessagePack. Shaped for ws's `handleProtocols` option.
+ */
+export function selectSubprotocol(offered: Set<string>): string | false {
+  if (offered.has(MSGPACK_SUBPROTOCOL)) return MSGPACK_SUBPROTOCOL;
+  if (offered.has(JSON_SUBPROTOCOL)) return JSON_SUBPROTOCOL;
+  return false;
+}
+
+/**
+ * Decode a frame and validate it; undecodable frames become an issue at "$"
+ * ("invalid JSON: ...", "invalid MessagePack: ...") instead of throwing.
+ */
+export function decodeMessage<T>(
+  codec: Codec,
+  data: Buffer,
+  validate: (input: unknown) => ValidationResult<T>
+): ValidationResult<T> {
+  let decoded: unknown;
+  try {
+    decoded = codec.decode(data);
+  } catch (e) {
+    const label = codec.name === "json" ? "JSON" : "MessagePack";
+    return { ok: false, issues: [{ path: "$", message: `invalid ${label}: ${(e as Error).message}` }] };
+  }
+  return validate(decoded);
+}
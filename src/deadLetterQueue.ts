@@ -0,0 +1,210 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { ExecutionEvent, RejectionReason } from "./types.js";
+import type { TradingEngine } from "./engine.js";
+import { validateInboundMessage, type ValidationIssue } from "./messageValidation.js";
+import { codecs, decodeMessage, type CodecName } from "./codec.js";
+
+/**
+ * Dead-letter queue: execution stream messages the consumer could not use,
+ * kept with enough context to inspect them and re-drive them into the engine
+ * once the cause is fixed (order created, producer patched, engine bug fixed).
+ *
+ * - malformed: failed decoding or validation (issues say why)
+ * - rejected: valid event the engine refused (reason); duplicate_event is
+ *   normal under at-least-once delivery and is not dead-lettered
+ * - apply_error: applyExecution threw (error message)
+ */
+export type DeadLetterKind = "malformed" | "rejected" | "apply_error";
+
+export interface DeadLetterRecord {
+  kind: DeadLetterKind;
+  raw: string;                  // frame as received (base64 for binary frames)
+  encoding: CodecName;          // codec the frame was decoded with
+  receivedAt: number;           // epoch ms
+  event?: ExecutionEvent;       // rejected / apply_error: the decoded event
+  issues?: ValidationIssue[];   // malformed
+  reason?: RejectionReason;     // rejected
+  error?: string;               // apply_error
+}
+
+export interface DeadLetterEntry extends DeadLetterRecord {
+  id: number;                   // 1-based, assigned by the queue
+  redriveAttempts: number;
+  lastRedriveAt?: number;
+}
+
+export interface DeadLetterFilter {
+  kind?: DeadLetterKind;
+  reason?: RejectionReason;
+}
+
+export interface DeadLetterQueue {
+  add(record: DeadLetterRecord): DeadLetterEntry;
+  /** Pending entries, oldest first. */
+  list(filter?: DeadLetterFilter): DeadLetterEntry[];
+  get(id: number): DeadLetterEntry | undefined;
+  /** Record a re-drive attempt that left the entry pending. */
+  touch(id: number, at: number, update: Partial<DeadLetterRecord>): void;
+  /** Drop an entry (re-driven successfully, or discarded by an operator). */
+  remove(id: number): boolean;
+}
+
+function matchesFilter(entry: DeadLetterEntry, filter: DeadLetterFilter): boolean {
+  return (filter.kind === undefined || entry.kind === filter.kind)
+    && (filter.reason === undefined || entry.reason === filter.reason);
+}
+
+export class MemoryDeadLetterQueue implements DeadLetterQueue {
+  protected entries = new Map<number, DeadLetterEntry>();
+  protected lastId = 0;
+
+  add(record: DeadLetterRecord): DeadLetterEntry {
+    const entry: DeadLetterEntry = { ...structuredClone(record), id: ++this.lastId, redriveAttempts: 0 };
+    this.entries.set(entry.id, entry);
+    return structuredClone(entry);
+  }
+
+  list(filter: DeadLetterFilter = {}): DeadLetterEntry[] {
+    return structuredClone([...this.entries.values()].filter((e) => matchesFilter(e, filter)));
+  }
+
+  get(id: number): DeadLetterEntry | undefined {
+    const entry = this.entries.get(id);
+    return entry && structuredClone(entry);
+  }
+
+  touch(id: number, at: number, update: Partial<DeadLetterRecord>): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    Object.assign(entry, structuredClone(update), { redriveAttempts: entry.redriveAttempts + 1, lastRedriveAt: at });
+  }
+
+  remove(id: number): boolean {
+    return this.entries.delete(id);
+  }
+}
+
+type DeadLetterLogLine =
+  | { op: "add"; entry: DeadLetterEntry }
+  | { op: "touch"; id: number; at: number; update: Partial<DeadLetterRecord> }
+  | { op: "remove"; id: number };
+
+/**
+ * NDJSON-backed queue: every change is appended as a line (add, touch,
+ * remove) and the file is replayed on open, so pending entries survive
+ * restarts. A truncated last line (crash mid-write) is ignored, as in
+ * FileJournal.
+ */
+export class FileDeadLetterQueue extends MemoryDeadLetterQueue {
+  constructor(readonly filePath: string) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.load();
+  }
+
+  override add(record: DeadLetterRecord): DeadLetterEntry {
+    const entry = super.add(record);
+    this.write({ op: "add", entry });
+    return entry;
+  }
+
+  override touch(id: number, at: number, update: Partial<DeadLetterRecord>): void {
+    if (!this.entries.has(id)) return;
+    super.touch(id, at, update);
+    this.write({ op: "touch", id, at, update });
+  }
+
+  override remove(id: number): boolean {
+    if (!super.remove(id)) return false;
+    this.write({ op: "remove", id });
+    return true;
+  }
+
+  private write(line: DeadLetterLogLine): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(line) + "\n");
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const content = fs.readFileSync(this.filePath, "utf8");
+    if (content !== "" && !content.endsWith("\n")) {
+      fs.truncateSync(this.filePath, Buffer.byteLength(content.slice(0, content.lastIndexOf("\n") + 1)));
+    }
+
+    for (const text of content.split("\n")) {
+      if (!text.trim()) continue;
+      let line: DeadLetterLogLine;
+      try {
+        line = JSON.parse(text) as DeadLetterLogLine;
+      } catch {
+        continue; // partial tail, already truncated above
+      }
+      if (line.op === "add") {
+        this.entries.set(line.entry.id, line.entry);
+        this.lastId = Math.max(this.lastId, line.entry.id);
+      } else if (line.op === "touch") {
+        super.touch(line.id, line.at, line.update);
+      } else {
+        this.entries.delete(line.id);
+      }
+    }
+  }
+}
+
+export type RedriveOutcome =
+  | { id: number; outcome: "applied" }
+  | { id: number; outcome: "rejected"; reason: RejectionReason }
+  | { id: number; outcome: "invalid"; issues: ValidationIssue[] }
+  | { id: number; outcome: "error"; error: string };
+
+/**
+ * Feed pending entries back into the engine (all of them, or those matching
+ * `filter`). Malformed entries are decoded and validated again from `raw`.
+ *
+ * An entry leaves the queue when the engine applies it, or rejects it as
+ * duplicate_event (it was applied some other way meanwhile). Otherwise it
+ * stays, with the new reason/issues/error and an incremented attempt count.
+ */
+export function redriveDeadLetters(
+  queue: DeadLetterQueue,
+  engine: TradingEngine,
+  filter: DeadLetterFilter & { ids?: number[] } = {},
+  now: () => number = Date.now
+): RedriveOutcome[] {
+  const entries = queue.list(filter).filter((e) => !filter.ids || filter.ids.includes(e.id));
+  return entries.map((entry): RedriveOutcome => {
+    let event = entry.event;
+    if (!event) {
+      const data = Buffer.from(entry.raw, entry.encoding === "json" ? "utf8" : "base64");
+      const decoded = decodeMessage(codecs[entry.encoding], data, validateInboundMessage);
+      if (!decoded.ok) {
+        queue.touch(entry.id, now(), { issues: decoded.issues });
+        return { id: entry.id, outcome: "invalid", issues: decoded.issues };
+      }
+      if (decoded.value.type !== "execution") {
+        const issues = [{ path: "$.type", message: `expected "execution", got "${decoded.value.type}"` }];
+        queue.touch(entry.id, now(), { issues });
+        return { id: entry.id, outcome: "invalid", issues };
+      }
+      event = decoded.value;
+    }
+
+    try {
+      const result = engine.applyExecution(event);
+      if (result.applied || result.reason === "duplicate_event") {
+        queue.remove(entry.id);
+        return result.applied
+          ? { id: entry.id, outcome: "applied" }
+          : { id: entry.id, outcome: "rejected", reason: result.reason };
+      }
+      queue.touch(entry.id, now(), { kind: "rejected", event, reason: result.reason });
+      return { id: entry.id, outcome: "rejected", reason: result.reason };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      queue.touch(entry.id, now(), { kind: "apply_error", event, error });
+      return { id: entry.id, outcome: "error", error };
+    }
+  });
+}
@@ -1,111 +1,495 @@
-import type { Account, Order, ExecutionEvent } from "./types.js";
+import { MemoryIdempotencyStore, type IdempotencyStore } from "./idempotencyStore.js";
+import type { EngineSnapshot, Journal, JournalEntry, JournalRecord, SnapshotStore } from "./journal.js";
+import { canTransition, terminalStatusReason } from "./orderLifecycle.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  type Account,
+  type ApplyResult,
+  type ExecutionEvent,
+  type Order,
+  type OrderActionResult,
+  type OrderSide,
+  type OrderStatus,
+  type RejectionReason,
+} from "./types.js";
 
 /**
- * TradingEngine: manages order state and account balance with idempotency guarantees.
+ * Parameters for creating a new order in the engine.
+ */
+export interface NewOrder {
+  id: string;
+  quantity: number;
+  accountId?: string;
+  side?: OrderSide;
+  instrument?: string;
+}
+
+export interface TradingEngineOptions {
+  /** Where processed eventIds are remembered (default: in-memory LRU/TTL store) */
+  idempotencyStore?: IdempotencyStore;
+  /** Append-only log of executions and book changes (default: none) */
+  journal?: Journal;
+  /** Where periodic snapshots are written (requires journal) */
+  snapshotStore?: SnapshotStore;
+  /** Take a snapshot every N journal entries (default: never) */
+  snapshotEvery?: number;
+}
+
+/** Journal record type for each explicit lifecycle operation */
+const TRANSITION_RECORDS = {
+  CANCELLED: "order_cancelled",
+  EXPIRED: "order_expired",
+  REJECTED: "order_rejected",
+} as const satisfies Partial<Record<OrderStatus, JournalRecord["type"]>>;
+
+/**
+ * Build a rejection result; order state is included when the order is known.
+ */
+function rejected(reason: RejectionReason, order?: Order): ApplyResult {
+  if (!order) return { applied: false, reason, effectiveQuantity: 0 };
+  return {
+    applied: false,
+    reason,
+    effectiveQuantity: 0,
+    remainingQuantity: order.quantity - order.filledQuantity,
+    status: order.status,
+  };
+}
+
+/**
+ * TradingEngine: manages order state and account balances with idempotency guarantees.
  * 
  * Key features for interview discussion:
- * 1. Idempotency via Set<eventId> - prevents duplicate processing
+ * 1. Idempotency via an injected IdempotencyStore (bounded LRU/TTL in
+ *    memory, or Redis so dedup survives restarts) - prevents duplicate processing
  * 2. Overfill prevention - caps execution at remaining quantity
- * 3. State validation - rejects executions on FILLED orders
+ * 3. State validation - rejects executions on FILLED, CANCELLED, REJECTED
+ *    and EXPIRED orders; lifecycle changes follow ORDER_TRANSITIONS
  * 4. Atomic updates - all-or-nothing state changes
+ * 5. Notional accounting - balance moves by price * quantity (+ fee),
+ *    orders track total notional and average fill price
+ * 6. BUY/SELL sides - BUY debits the balance and adds to the instrument
+ *    position, SELL credits the balance and draws the position down;
+ *    fills the account cannot afford (or deliver) are rejected up front
+ * 7. Order book - many orders and accounts keyed by id, so one engine
+ *    can consume a multi-order execution stream
+ * 8. Event journal - accepted and rejected executions are journaled;
+ *    TradingEngine.restore() rebuilds state from a snapshot + journal
  * 
  * Production considerations to mention:
  * - In real systems, this would be backed by a database with transactions
- * - Event sourcing could provide better audit trail
  * - Separate read/write models (CQRS) for high throughput
- * - Time-based TTL for processedEventIds to prevent unbounded memory growth
  */
 export class TradingEngine {
-  private processedEventIds = new Set<string>();
+  private orders = new Map<string, Order>();
+  private accounts = new Map<string, Account>();
+  private processedEventIds: IdempotencyStore;
+  private journal: Journal | undefined;
+  private snapshotStore: SnapshotStore | undefined;
+  private snapshotEvery: number;
+  private replaying = false;
+
+  /**
+   * Optionally seed the engine with one order and its account
+   * (the original single-order setup).
+   */
+  constructor(order?: Order, account?: Account, options: TradingEngineOptions = {}) {
+    this.processedEventIds = options.idempotencyStore ?? new MemoryIdempotencyStore();
+    this.journal = options.journal;
+    this.snapshotStore = options.snapshotStore;
+    this.snapshotEvery = options.snapshotEvery ?? 0;
+    if (account) this.addAccount(account);
+    if (order) this.addOrder(order);
+  }
+
+  /**
+   * Rebuild an engine from a snapshot and/or journal entries.
+   *
+   * Entries at or before the snapshot's seq are skipped. Executions are
+   * re-applied and must reproduce the recorded result, otherwise replay
+   * throws (the engine's logic diverged from the one that wrote the journal).
+   *
+   * The rebuilt engine uses `options` (e.g. a journal to keep appending to);
+   * replayed entries are not written to it again.
+   */
+  static restore(
+    source: { snapshot?: EngineSnapshot | undefined; entries?: JournalEntry[] },
+    options: TradingEngineOptions = {}
+  ): TradingEngine {
+    const engine = new TradingEngine(undefined, undefined, options);
+    engine.replaying = true;
+    try {
+      const { snapshot, entries = [] } = source;
+      if (snapshot) {
+        for (const account of structuredClone(snapshot.accounts)) engine.addAccount(account);
+        for (const order of structuredClone(snapshot.orders)) engine.addOrder(order);
+        for (const eventId of snapshot.processedEventIds) engine.processedEventIds.add(eventId);
+      }
+      for (const entry of entries) {
+        if (snapshot && entry.seq <= snapshot.seq) continue;
+        engine.replayEntry(entry);
+      }
+    } finally {
+      engine.replaying = false;
+    }
+    return engine;
+  }
+
+  /**
+   * Deep copy of the current state, tagged with the last journal seq.
+   */
+  snapshot(): EngineSnapshot {
+    return {
+      version: 1,
+      seq: this.journal?.lastSeq() ?? 0,
+      takenAt: Date.now(),
+      orders: structuredClone(this.listOrders()),
+      accounts: structuredClone(this.listAccounts()),
+      processedEventIds: this.processedEventIds.keys(),
+    };
+  }
+
+  /**
+   * Register an existing account. The object is stored by reference,
+   * so callers holding it observe balance updates.
+   * Accounts without an id are registered as DEFAULT_ACCOUNT_ID.
+   */
+  addAccount(account: Account): Account {
+    const id = account.id ?? DEFAULT_ACCOUNT_ID;
+    if (this.accounts.has(id)) {
+      throw new Error(`Account already exists: ${id}`);
+    }
+    this.accounts.set(id, account);
+    this.record({ type: "account_added", account });
+    return account;
+  }
+
+  /**
+   * Create and register a new account with the given starting balance.
+   */
+  createAccount(id: string, balance = 0): Account {
+    return this.addAccount({ id, balance });
+  }
+
+  getAccount(id: string = DEFAULT_ACCOUNT_ID): Account | undefined {
+    return this.accounts.get(id);
+  }
+
+  listAccounts(): Account[] {
+    return [...this.accounts.values()];
+  }
+
+  /**
+   * Register an existing order. The object is stored by reference,
+   * so callers holding it observe fills and status changes.
+   */
+  addOrder(order: Order): Order {
+    if (this.orders.has(order.id)) {
+      throw new Error(`Order already exists: ${order.id}`);
+    }
+    this.orders.set(order.id, order);
+    this.record({ type: "order_added", order });
+    return order;
+  }
+
+  /**
+   * Create and register a new OPEN order.
+   * The owning account does not need to exist yet; executions against
+   * an order whose account is missing are rejected as unknown_account.
+   */
+  createOrder(params: NewOrder): Order {
+    if (!Number.isFinite(params.quantity) || params.quantity <= 0) {
+      throw new Error(`Invalid order quantity: ${params.quantity}`);
+    }
+
+    const order: Order = {
+      id: params.id,
+      side: params.side ?? "BUY",
+      quantity: params.quantity,
+      filledQuantity: 0,
+      status: "OPEN",
+    };
+    if (params.accountId !== undefined) order.accountId = params.accountId;
+    if (params.instrument !== undefined) order.instrument = params.instrument;
+
+    return this.addOrder(order);
+  }
+
+  getOrder(id: string): Order | undefined {
+    return this.orders.get(id);
+  }
+
+  /**
+   * List orders in insertion order, optionally restricted to one account.
+   */
+  listOrders(filter: { accountId?: string } = {}): Order[] {
+    const all = [...this.orders.values()];
+    if (filter.accountId === undefined) return all;
+    return all.filter((o) => (o.accountId ?? DEFAULT_ACCOUNT_ID) === filter.accountId);
+  }
 
-  constructor(
-    public order: Order,
-    public account: Account
-  ) {}
+  /**
+   * Cancel an open or partially filled order. Filled quantity is kept.
+   *
+   * Rejection reasons: unknown_order, or the terminal-status reason
+   * (already_filled, order_cancelled, order_rejected, order_expired).
+   */
+  cancelOrder(orderId: string): OrderActionResult {
+    return this.transitionOrder(orderId, "CANCELLED");
+  }
+
+  /**
+   * Expire an open or partially filled order (e.g. end of day for DAY orders).
+   */
+  expireOrder(orderId: string): OrderActionResult {
+    return this.transitionOrder(orderId, "EXPIRED");
+  }
+
+  /**
+   * Reject an order that has not been filled yet.
+   * Partially filled orders return invalid_transition; cancel them instead.
+   */
+  rejectOrder(orderId: string): OrderActionResult {
+    return this.transitionOrder(orderId, "REJECTED");
+  }
+
+  /**
+   * Reduce an order's quantity. Amending up is not supported.
+   *
+   * The new quantity must be positive, below the current quantity and not
+   * below what is already filled (invalid_amend_quantity otherwise).
+   * Amending down to exactly the filled quantity completes the order.
+   */
+  amendOrder(orderId: string, newQuantity: number): OrderActionResult {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      return { applied: false, reason: "unknown_order" };
+    }
+
+    const terminalReason = terminalStatusReason(order.status);
+    if (terminalReason) {
+      return { applied: false, reason: terminalReason };
+    }
+
+    if (
+      !Number.isFinite(newQuantity) ||
+      newQuantity <= 0 ||
+      newQuantity >= order.quantity ||
+      newQuantity < order.filledQuantity
+    ) {
+      return { applied: false, reason: "invalid_amend_quantity" };
+    }
+
+    order.quantity = newQuantity;
+    if (order.filledQuantity === newQuantity) {
+      order.status = "FILLED";
+    }
+    this.record({ type: "order_amended", orderId, quantity: newQuantity });
+    return { applied: true, status: order.status };
+  }
+
+  private transitionOrder(orderId: string, to: keyof typeof TRANSITION_RECORDS): OrderActionResult {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      return { applied: false, reason: "unknown_order" };
+    }
+
+    if (!canTransition(order.status, to)) {
+      return { applied: false, reason: terminalStatusReason(order.status) ?? "invalid_transition" };
+    }
+
+    order.status = to;
+    this.record({ type: TRANSITION_RECORDS[to], orderId });
+    return { applied: true, status: to };
+  }
 
   /**
    * Idempotent execution handler.
    * 
-   * Returns { applied: boolean, reason?: string } to provide feedback
-   * on why an event was rejected (useful for monitoring/debugging).
+   * Returns an ApplyResult: the effective (possibly capped) quantity, the
+   * order's remaining quantity and status, and on rejection a typed
+   * RejectionReason (useful for monitoring/debugging).
    * 
-   * Rejection reasons:
-   * - duplicate_event: eventId already processed
-   * - unknown_order: orderId doesn't match
-   * - invalid_executed_quantity: non-positive quantity
-   * - already_filled: order is already complete
-   * - unsupported_event: event type not "execution"
+   * Rejection reasons: see RejectionReason in types.ts (checked in that order).
    * 
    * Success reasons:
    * - capped_overfill: execution quantity exceeded remaining, was capped
    * - (no reason): normal successful execution
+   *
+   * Every call is journaled with its result, accepted or rejected.
    */
-  applyExecution(evt: ExecutionEvent): { applied: boolean; reason?: string } {
+  applyExecution(evt: ExecutionEvent): ApplyResult {
+    const result = this.execute(evt);
+    this.record({ type: "execution", event: evt, result });
+    return result;
+  }
+
+  private execute(evt: ExecutionEvent): ApplyResult {
     // Guard: only handle execution events
     if (evt.type !== "execution") {
-      return { applied: false, reason: "unsupported_event" };
+      return rejected("unsupported_event");
     }
 
     // Idempotency check: reject duplicates
     if (this.processedEventIds.has(evt.eventId)) {
-      return { applied: false, reason: "duplicate_event" };
+      return rejected("duplicate_event");
     }
 
-    // Validate order ID
-    if (evt.orderId !== this.order.id) {
-      return { applied: false, reason: "unknown_order" };
+    // Resolve order and its account
+    const order = this.orders.get(evt.orderId);
+    if (!order) {
+      return rejected("unknown_order");
+    }
+
+    const account = this.accounts.get(order.accountId ?? DEFAULT_ACCOUNT_ID);
+    if (!account) {
+      return rejected("unknown_account", order);
     }
 
     // Validate quantity
     if (evt.executedQuantity <= 0) {
-      return { applied: false, reason: "invalid_executed_quantity" };
+      return rejected("invalid_executed_quantity", order);
     }
 
-    // Reject executions on already-filled orders
-    if (this.order.status === "FILLED") {
-      return { applied: false, reason: "already_filled" };
+    // Validate price and fee (both optional on the wire)
+    const price = evt.price ?? 1;
+    if (!Number.isFinite(price) || price <= 0) {
+      return rejected("invalid_price", order);
+    }
+
+    const fee = evt.fee ?? 0;
+    if (!Number.isFinite(fee) || fee < 0) {
+      return rejected("invalid_fee", order);
+    }
+
+    // Reject executions on orders in a terminal status
+    const terminalReason = terminalStatusReason(order.status);
+    if (terminalReason) {
+      return rejected(terminalReason, order);
     }
 
     // Calculate effective quantity (prevent overfill)
-    const remaining = this.order.quantity - this.order.filledQuantity;
+    const remaining = order.quantity - order.filledQuantity;
     const effectiveQty = Math.min(evt.executedQuantity, remaining);
 
+    // Notional of this fill; orders without notional history are
+    // assumed to have filled at unit price so far
+    const notional = effectiveQty * price;
+    const priorNotional = order.filledNotional ?? order.filledQuantity;
+
+    // Pre-trade checks: nothing is mutated if the account can't settle the fill
+    const isSell = order.side === "SELL";
+    const position = order.instrument !== undefined ? account.positions?.[order.instrument] ?? 0 : undefined;
+    if (!isSell && account.balance < notional + fee) {
+      return rejected("insufficient_balance", order);
+    }
+    if (isSell && fee > notional) {
+      return rejected("fee_exceeds_notional", order);
+    }
+    if (isSell && position !== undefined && position < effectiveQty) {
+      return rejected("insufficient_position", order);
+    }
+
     // Apply state changes atomically
-    this.order.filledQuantity += effectiveQty;
-    this.account.balance -= effectiveQty;
+    order.filledQuantity += effectiveQty;
+    order.filledNotional = priorNotional + notional;
+    order.averageFillPrice = order.filledNotional / order.filledQuantity;
+    account.balance += isSell ? notional - fee : -(notional + fee);
+    if (order.instrument !== undefined && position !== undefined) {
+      account.positions = {
+        ...account.positions,
+        [order.instrument]: position + (isSell ? -effectiveQty : effectiveQty),
+      };
+    }
 
     // Update order status based on fill level
-    if (this.order.filledQuantity === this.order.quantity) {
-      this.order.status = "FILLED";
-    } else if (this.order.filledQuantity > 0) {
-      this.order.status = "PARTIALLY_FILLED";
+    if (order.filledQuantity === order.quantity) {
+      order.status = "FILLED";
+    } else if (order.filledQuantity > 0) {
+      order.status = "PARTIALLY_FILLED";
     } else {
-      this.order.status = "OPEN";
+      order.status = "OPEN";
     }
 
     // Mark event as processed (idempotency key)
     this.processedEventIds.add(evt.eventId);
 
+    const result: ApplyResult = {
+      applied: true,
+      effectiveQuantity: effectiveQty,
+      remainingQuantity: order.quantity - order.filledQuantity,
+      status: order.status,
+    };
+
     // Provide feedback if we capped the execution
     if (effectiveQty < evt.executedQuantity) {
-      return { applied: true, reason: "capped_overfill" };
+      result.reason = "capped_overfill";
     }
 
-    return { applied: true };
+    return result;
   }
 
   /**
    * Get the set of processed event IDs (useful for testing/debugging)
    */
   getProcessedEventIds(): Set<string> {
-    return new Set(this.processedEventIds);
+    return new Set(this.processedEventIds.keys());
   }
 
   /**
    * Clear processed event IDs (useful for testing)
-   * In production, you'd have TTL-based expiration instead
+   * In production, entries expire via the store's TTL instead
    */
   clearProcessedEvents(): void {
     this.processedEventIds.clear();
+    this.record({ type: "processed_events_cleared" });
+  }
+
+  /**
+   * Append to the journal (if any) and take a periodic snapshot when due.
+   * Records are copied by the journal, so later mutations don't leak in.
+   */
+  private record(record: JournalRecord): void {
+    if (!this.journal || this.replaying) return;
+
+    const entry = this.journal.append(record);
+    if (this.snapshotStore && this.snapshotEvery > 0 && entry.seq % this.snapshotEvery === 0) {
+      this.snapshotStore.save(this.snapshot());
+    }
+  }
+
+  private replayEntry(entry: JournalEntry): void {
+    switch (entry.type) {
+      case "account_added":
+        this.addAccount(entry.account);
+        break;
+      case "order_added":
+        this.addOrder(entry.order);
+        break;
+      case "order_cancelled":
+        this.cancelOrder(entry.orderId);
+        break;
+      case "order_expired":
+        this.expireOrder(entry.orderId);
+        break;
+      case "order_rejected":
+        this.rejectOrder(entry.orderId);
+        break;
+      case "order_amended":
+        this.amendOrder(entry.orderId, entry.quantity);
+        break;
+      case "processed_events_cleared":
+        this.clearProcessedEvents();
+        break;
+      case "execution": {
+        const result = this.applyExecution(entry.event);
+        if (result.applied !== entry.result.applied || result.reason !== entry.result.reason) {
+          throw new Error(
+            `Journal replay diverged at seq ${entry.seq}: recorded ${JSON.stringify(entry.result)}, got ${JSON.stringify(result)}`
+          );
+        }
+        break;
+      }
+    }
   }
 }
@@ -6,6 +6,8 @@ export interface Order {
   side: OrderSide;
   quantity: number;
   filledQuantity: number;
+  filledNotional?: number;
+  averageFillPrice?: number;
   status: OrderStatus;
   _lastExecution?: { quantity: number; timestamp: number }; // Track last execution for duplicate detection
 }
@@ -14,7 +16,7 @@ export interface Account {
   balance: number;
 }
 
-export function executeOrder(order: Order, account: Account, executedQuantity: number): void {
+export function executeOrder(order: Order, account: Account, executedQuantity: number, price = 1, fee = 0): void {
   const now = Date.now();
   
   // Detect duplicate execution: same quantity within 100ms time window
@@ -27,9 +29,13 @@ export function executeOrder(order: Order, account: Account, executedQuantity: n
 
   // Execute only if there's quantity to fill
   if (actualQuantity > 0) {
+    const notional = actualQuantity * price;
+    order.filledNotional = (order.filledNotional ?? order.filledQuantity) + notional;
     order.filledQuantity += actualQuantity;
-    // BUY orders decrease balance (spending), SELL orders increase balance (receiving)
-    account.balance += order.side === "BUY" ? -actualQuantity : actualQuantity;
+    order.averageFillPrice = order.filledNotional / order.filledQuantity;
+    // BUY orders decrease balance (spending), SELL orders increase balance (receiving);
+    // the fee is paid either way, as in TradingEngine
+    account.balance += order.side === "BUY" ? -(notional + fee) : notional - fee;
     order._lastExecution = { quantity: executedQuantity, timestamp: now };
   }
 
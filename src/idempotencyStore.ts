@@ -0,0 +1,168 @@
+/**
+ * Idempotency stores: remember which eventIds were already applied.
+ *
+ * The interface is synchronous so TradingEngine.applyExecution stays
+ * synchronous; durable backends keep a local cache and write through
+ * asynchronously (see RedisIdempotencyStore).
+ */
+export interface IdempotencyStore {
+  has(eventId: string): boolean;
+  add(eventId: string): void;
+  keys(): string[];
+  clear(): void;
+}
+
+export interface MemoryIdempotencyStoreOptions {
+  maxEntries?: number;    // LRU bound (default 100_000)
+  ttlMs?: number;         // entry lifetime (default 1 hour, same as the Redis cache)
+  now?: () => number;     // clock override for tests
+}
+
+/**
+ * In-memory store bounded by both size (LRU eviction) and age (TTL).
+ *
+ * Map iteration order is insertion order, so re-inserting on access keeps
+ * the least recently used entry first and eviction is O(1).
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private entries = new Map<string, number>(); // eventId -> expiresAt
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+
+  constructor(options: MemoryIdempotencyStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 100_000;
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  has(eventId: string): boolean {
+    const expiresAt = this.entries.get(eventId);
+    if (expiresAt === undefined) return false;
+
+    if (expiresAt <= this.now()) {
+      this.entries.delete(eventId);
+      return false;
+    }
+
+    // Touch: move to the most recently used position
+    this.entries.delete(eventId);
+    this.entries.set(eventId, expiresAt);
+    return true;
+  }
+
+  add(eventId: string): void {
+    this.entries.delete(eventId);
+    this.entries.set(eventId, this.now() + this.ttlMs);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  keys(): string[] {
+    const now = this.now();
+    for (const [eventId, expiresAt] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(eventId);
+    }
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Subset of the node-redis v4 client used by RedisIdempotencyStore.
+ * Declared structurally so tests can pass a fake.
+ */
+export interface RedisLike {
+  set(key: string, value: string, options: { EX: number }): Promise<unknown>;
+  del(keys: string[]): Promise<unknown>;
+  scanIterator(options: { MATCH: string; COUNT?: number }): AsyncIterable<string>;
+}
+
+export interface RedisIdempotencyStoreOptions {
+  keyPrefix?: string;     // default "execution:" (same keys as src/mockEngine.js)
+  ttlSeconds?: number;    // default 3600
+  maxEntries?: number;    // local cache bound
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * Redis-backed store: dedup survives restarts and is shared across instances.
+ *
+ * - add() updates the local cache immediately and writes
+ *   `<prefix><eventId>` with a TTL in the background
+ * - hydrate() loads existing keys on startup (call before consuming)
+ * - flush() awaits pending writes (call before shutdown)
+ *
+ * Hydrated entries get a full local TTL; they may outlive the Redis key
+ * slightly, which only makes dedup more conservative.
+ */
+export class RedisIdempotencyStore implements IdempotencyStore {
+  private readonly local: MemoryIdempotencyStore;
+  private readonly keyPrefix: string;
+  private readonly ttlSeconds: number;
+  private readonly onError: (err: unknown) => void;
+  private pending = new Set<Promise<unknown>>();
+
+  constructor(
+    private readonly client: RedisLike,
+    options: RedisIdempotencyStoreOptions = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? "execution:";
+    this.ttlSeconds = options.ttlSeconds ?? 3600;
+    this.onError = options.onError ?? (() => {});
+
+    const localOptions: MemoryIdempotencyStoreOptions = { ttlMs: this.ttlSeconds * 1000 };
+    if (options.maxEntries !== undefined) localOptions.maxEntries = options.maxEntries;
+    this.local = new MemoryIdempotencyStore(localOptions);
+  }
+
+  /**
+   * Load eventIds already recorded in Redis. Returns how many were loaded.
+   */
+  async hydrate(): Promise<number> {
+    let count = 0;
+    for await (const key of this.client.scanIterator({ MATCH: `${this.keyPrefix}*`, COUNT: 1000 })) {
+      this.local.add(key.slice(this.keyPrefix.length));
+      count++;
+    }
+    return count;
+  }
+
+  has(eventId: string): boolean {
+    return this.local.has(eventId);
+  }
+
+  add(eventId: string): void {
+    this.local.add(eventId);
+    this.track(this.client.set(this.keyPrefix + eventId, "1", { EX: this.ttlSeconds }));
+  }
+
+  keys(): string[] {
+    return this.local.keys();
+  }
+
+  clear(): void {
+    const keys = this.local.keys().map((eventId) => this.keyPrefix + eventId);
+    this.local.clear();
+    if (keys.length > 0) this.track(this.client.del(keys));
+  }
+
+  /**
+   * Wait for all background Redis writes issued so far.
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  private track(write: Promise<unknown>): void {
+    const tracked = write.catch((err) => this.onError(err)).finally(() => this.pending.delete(tracked));
+    this.pending.add(tracked);
+  }
+}
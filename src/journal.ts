@@ -0,0 +1,146 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Account, ApplyResult, ExecutionEvent, Order } from "./types.js";
+
+/**
+ * Engine journal: an append-only log of everything that changed (or was
+ * refused by) a TradingEngine, so its state can be rebuilt deterministically.
+ *
+ * - every ExecutionEvent is recorded with the result it produced,
+ *   accepted or rejected
+ * - order/account registration and applied lifecycle operations are
+ *   recorded so replay starts from the same book
+ */
+export type JournalRecord =
+  | { type: "account_added"; account: Account }
+  | { type: "order_added"; order: Order }
+  | { type: "order_cancelled" | "order_expired" | "order_rejected"; orderId: string }
+  | { type: "order_amended"; orderId: string; quantity: number }
+  | { type: "execution"; event: ExecutionEvent; result: ApplyResult }
+  | { type: "processed_events_cleared" };
+
+export type JournalEntry = JournalRecord & {
+  seq: number;            // 1-based, strictly increasing
+  at: number;             // epoch ms when recorded (informational; not used by replay)
+};
+
+export interface Journal {
+  /** Append a record; the journal assigns the sequence number. */
+  append(record: JournalRecord, at?: number): JournalEntry;
+  /** All entries in sequence order. */
+  read(): JournalEntry[];
+  /** Sequence number of the last entry (0 when empty). */
+  lastSeq(): number;
+}
+
+/**
+ * Point-in-time copy of engine state. Replay resumes after `seq`.
+ */
+export interface EngineSnapshot {
+  version: 1;
+  seq: number;
+  takenAt: number;
+  orders: Order[];
+  accounts: Account[];
+  processedEventIds: string[];
+}
+
+export interface SnapshotStore {
+  save(snapshot: EngineSnapshot): void;
+  load(): EngineSnapshot | undefined;
+}
+
+export class MemoryJournal implements Journal {
+  private entries: JournalEntry[] = [];
+
+  append(record: JournalRecord, at = Date.now()): JournalEntry {
+    const entry: JournalEntry = { ...structuredClone(record), seq: this.lastSeq() + 1, at };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  read(): JournalEntry[] {
+    return structuredClone(this.entries);
+  }
+
+  lastSeq(): number {
+    return this.entries.at(-1)?.seq ?? 0;
+  }
+}
+
+/**
+ * NDJSON file journal: one JSON entry per line, appended synchronously so
+ * an entry is on disk before applyExecution returns.
+ *
+ * Reopening an existing file continues its sequence. A truncated last line
+ * (crash mid-write) is ignored on read and dropped when the file is reopened.
+ */
+export class FileJournal implements Journal {
+  private seq: number;
+
+  constructor(readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.dropPartialTail();
+    this.seq = this.read().at(-1)?.seq ?? 0;
+  }
+
+  append(record: JournalRecord, at = Date.now()): JournalEntry {
+    const entry: JournalEntry = { ...record, seq: this.seq + 1, at };
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n");
+    this.seq = entry.seq;
+    return entry;
+  }
+
+  read(): JournalEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    const lines = fs.readFileSync(this.filePath, "utf8").split("\n");
+    const entries: JournalEntry[] = [];
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch (e) {
+        // Only the final line may be partial; anything earlier is corruption
+        if (lines.slice(i + 1).some((l) => l.trim())) throw e;
+      }
+    });
+    return entries;
+  }
+
+  lastSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * Truncate an unterminated last line so new entries start on a fresh line.
+   */
+  private dropPartialTail(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const content = fs.readFileSync(this.filePath, "utf8");
+    if (content === "" || content.endsWith("\n")) return;
+    fs.truncateSync(this.filePath, Buffer.byteLength(content.slice(0, content.lastIndexOf("\n") + 1)));
+  }
+}
+
+/**
+ * Keeps the latest snapshot in a JSON file, replaced atomically
+ * (write to a temp file, then rename).
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  save(snapshot: EngineSnapshot): void {
+    const tmp = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(snapshot));
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  load(): EngineSnapshot | undefined {
+    if (!fs.existsSync(this.filePath)) return undefined;
+    return JSON.parse(fs.readFileSync(this.filePath, "utf8")) as EngineSnapshot;
+  }
+}
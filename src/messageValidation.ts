@@ -0,0 +1,222 @@
+import type { InboundMessage, OutboundMessage } from "./types.js";
+
+/**
+ * Runtime validation of messages received over the execution stream.
+ *
+ * TypeScript types vanish at runtime, so `JSON.parse(...) as ExecutionEvent`
+ * lets a string executedQuantity or a missing eventId straight into the
+ * engine. These validators check the wire shape and report every problem
+ * with a JSON path ("$.executedQuantity"), so bad producers are easy to find.
+ *
+ * Only shape is checked here; business rules (positive quantity, known
+ * order, ...) stay in TradingEngine and come back as rejection reasons.
+ * Unknown extra fields are allowed for forward compatibility.
+ *
+ * The same checks run server-side on client messages (OutboundMessage,
+ * named from the consumer's point of view).
+ */
+
+export interface ValidationIssue {
+  path: string;           // JSON path of the offending value, "$" for the root
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && !Number.isFinite(value)) return String(value);
+  return typeof value;
+}
+
+function requireString(obj: Fields, key: string, issues: ValidationIssue[]): void {
+  const value = obj[key];
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push({
+      path: `$.${key}`,
+      message: value === undefined ? "is required" : `expected non-empty string, got ${describe(value)}`,
+    });
+  }
+}
+
+function checkNumber(obj: Fields, key: string, required: boolean, issues: ValidationIssue[]): void {
+  const value = obj[key];
+  if (value === undefined) {
+    if (required) issues.push({ path: `$.${key}`, message: "is required" });
+    return;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({ path: `$.${key}`, message: `expected finite number, got ${describe(value)}` });
+  }
+}
+
+function checkSequence(obj: Fields, key: string, issues: ValidationIssue[]): void {
+  const value = obj[key];
+  if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value) || value < 0)) {
+    issues.push({ path: `$.${key}`, message: `expected non-negative integer, got ${JSON.stringify(value) ?? describe(value)}` });
+  }
+}
+
+function requireSequence(obj: Fields, key: string, issues: ValidationIssue[]): void {
+  if (obj[key] === undefined) issues.push({ path: `$.${key}`, message: "is required" });
+  else checkSequence(obj, key, issues);
+}
+
+function checkBoolean(obj: Fields, key: string, issues: ValidationIssue[]): void {
+  const value = obj[key];
+  if (value !== undefined && typeof value !== "boolean") {
+    issues.push({ path: `$.${key}`, message: `expected boolean, got ${describe(value)}` });
+  }
+}
+
+function checkOptionalString(obj: Fields, key: string, issues: ValidationIssue[]): void {
+  const value = obj[key];
+  if (value !== undefined && typeof value !== "string") {
+    issues.push({ path: `$.${key}`, message: `expected string, got ${describe(value)}` });
+  }
+}
+
+function checkStringArray(obj: Fields, key: string, issues: ValidationIssue[]): void {
+  const value = obj[key];
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push({ path: `$.${key}`, message: `expected array of strings, got ${describe(value)}` });
+    return;
+  }
+  value.forEach((item: unknown, i) => {
+    if (typeof item !== "string" || item.length === 0) {
+      issues.push({ path: `$.${key}[${i}]`, message: `expected non-empty string, got ${describe(item)}` });
+    }
+  });
+}
+
+type Validators<T extends { type: string }> = Record<T["type"], (obj: Fields, issues: ValidationIssue[]) => void>;
+
+/**
+ * Field checks per message type.
+ */
+const validators: Validators<InboundMessage> = {
+  execution(obj, issues) {
+    requireString(obj, "eventId", issues);
+    requireString(obj, "orderId", issues);
+    checkOptionalString(obj, "accountId", issues);
+    checkNumber(obj, "executedQuantity", true, issues);
+    checkNumber(obj, "price", false, issues);
+    checkNumber(obj, "fee", false, issues);
+    checkSequence(obj, "sequence", issues);
+    checkNumber(obj, "timestamp", false, issues);
+  },
+  hello(obj, issues) {
+    checkBoolean(obj, "ok", issues);
+    checkOptionalString(obj, "streamId", issues);
+  },
+  ack(obj, issues) {
+    checkOptionalString(obj, "message", issues);
+  },
+  heartbeat(obj, issues) {
+    checkNumber(obj, "timestamp", false, issues);
+  },
+  subscription_ack(obj, issues) {
+    checkStringArray(obj, "orderIds", issues);
+    checkStringArray(obj, "accountIds", issues);
+  },
+  replay_unavailable(obj, issues) {
+    requireSequence(obj, "fromSequence", issues);
+    requireSequence(obj, "oldestSequence", issues);
+  },
+  events_dropped(obj, issues) {
+    requireSequence(obj, "fromSequence", issues);
+    requireSequence(obj, "toSequence", issues);
+  },
+};
+
+const clientValidators: Validators<OutboundMessage> = {
+  replay(obj, issues) {
+    requireSequence(obj, "fromSequence", issues);
+  },
+  subscribe(obj, issues) {
+    checkStringArray(obj, "orderIds", issues);
+    checkStringArray(obj, "accountIds", issues);
+  },
+  unsubscribe(obj, issues) {
+    checkStringArray(obj, "orderIds", issues);
+    checkStringArray(obj, "accountIds", issues);
+  },
+  ack(obj, issues) {
+    requireString(obj, "eventId", issues);
+    checkSequence(obj, "sequence", issues);
+  },
+};
+
+function validateWith<T extends { type: string }>(table: Validators<T>, input: unknown): ValidationResult<T> {
+  if (!isObject(input)) {
+    return { ok: false, issues: [{ path: "$", message: `expected object, got ${describe(input)}` }] };
+  }
+
+  const type = input.type;
+  if (typeof type !== "string" || !Object.hasOwn(table, type)) {
+    return {
+      ok: false,
+      issues: [{
+        path: "$.type",
+        message: type === undefined
+          ? "is required"
+          : `unknown message type ${JSON.stringify(type)} (expected one of ${Object.keys(table).join(", ")})`,
+      }],
+    };
+  }
+
+  const issues: ValidationIssue[] = [];
+  table[type as T["type"]](input, issues);
+  if (issues.length > 0) return { ok: false, issues };
+
+  return { ok: true, value: input as unknown as T };
+}
+
+function parseWith<T extends { type: string }>(table: Validators<T>, raw: string): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return { ok: false, issues: [{ path: "$", message: `invalid JSON: ${(e as Error).message}` }] };
+  }
+  return validateWith(table, parsed);
+}
+
+/**
+ * Validate an already-parsed value as an InboundMessage.
+ */
+export function validateInboundMessage(input: unknown): ValidationResult<InboundMessage> {
+  return validateWith(validators, input);
+}
+
+/**
+ * Parse raw text from the socket and validate it.
+ * Malformed JSON is reported as an issue at "$" rather than thrown.
+ */
+export function parseInboundMessage(raw: string): ValidationResult<InboundMessage> {
+  return parseWith(validators, raw);
+}
+
+/**
+ * Server side: validate an already-parsed client message.
+ */
+export function validateOutboundMessage(input: unknown): ValidationResult<OutboundMessage> {
+  return validateWith(clientValidators, input);
+}
+
+/**
+ * Server side: parse and validate raw text received from a client.
+ */
+export function parseOutboundMessage(raw: string): ValidationResult<OutboundMessage> {
+  return parseWith(clientValidators, raw);
+}
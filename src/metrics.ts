@@ -0,0 +1,146 @@
+/**
+ * Minimal Prometheus-style metrics: counters and histograms rendered in the
+ * text exposition format (served on GET /metrics by src/server.ts).
+ *
+ * Deliberately dependency-free; a real service would use prom-client and
+ * add gauges, summaries and default process metrics.
+ */
+
+export type Labels = Record<string, string>;
+
+/** Latency buckets in seconds: 1ms .. 10s */
+export const DEFAULT_LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(",")}}`;
+}
+
+export class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key);
+    if (entry) entry.value += by;
+    else this.series.set(key, { labels, value: by });
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    // An unlabelled counter is reported even before its first increment
+    if (this.series.size === 0) lines.push(`${this.name} 0`);
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+export class Histogram {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS
+  ) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+    this.buckets.forEach((le, i) => {
+      if (value <= le) this.counts[i] = (this.counts[i] ?? 0) + 1;
+    });
+  }
+
+  getCount(): number {
+    return this.count;
+  }
+
+  getSum(): number {
+    return this.sum;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.buckets.forEach((le, i) => lines.push(`${this.name}_bucket{le="${le}"} ${this.counts[i] ?? 0}`));
+    lines.push(`${this.name}_bucket{le="+Inf"} ${this.count}`);
+    lines.push(`${this.name}_sum ${this.sum}`);
+    lines.push(`${this.name}_count ${this.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Array<Counter | Histogram> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /** Prometheus text exposition format (version 0.0.4) */
+  render(): string {
+    return this.metrics.flatMap((m) => m.render()).join("\n") + "\n";
+  }
+
+  private register<T extends Counter | Histogram>(metric: T): T {
+    if (this.metrics.some((m) => m.name === metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * What connectAndConsume records when given `metrics`.
+ * - received: every frame, valid or not
+ * - malformed: frames that failed decoding or validation
+ * - applied / rejected{reason}: applyExecution outcomes
+ * - applyErrors: applyExecution threw
+ * - latency: event timestamp -> apply finished, for events carrying one
+ */
+export interface ConsumerMetrics {
+  registry: MetricsRegistry;
+  received: Counter;
+  malformed: Counter;
+  applied: Counter;
+  rejected: Counter;
+  applyErrors: Counter;
+  latency: Histogram;
+}
+
+export function createConsumerMetrics(registry = new MetricsRegistry()): ConsumerMetrics {
+  return {
+    registry,
+    received: registry.counter("consumer_messages_received_total", "Frames received on the execution stream"),
+    malformed: registry.counter("consumer_messages_malformed_total", "Frames dropped by decoding or validation"),
+    applied: registry.counter("consumer_executions_applied_total", "Execution events applied by the engine"),
+    rejected: registry.counter("consumer_executions_rejected_total", "Execution events rejected by the engine, by reason"),
+    applyErrors: registry.counter("consumer_apply_errors_total", "Execution events whose apply threw"),
+    latency: registry.histogram(
+      "consumer_execution_latency_seconds",
+      "Time from the event timestamp until the engine applied it"
+    ),
+  };
+}
@@ -12,12 +12,26 @@
  * - Health checks enable CI to know when service is ready
  * - env vars (DATABASE_URL, REDIS_URL) show 12-factor app config
  * - Separate ports: HTTP (8080) vs WebSocket (8081)
+ * - Optional auth (API_KEYS / AUTH_TOKEN_SECRET, see src/auth.js): GET
+ *   routes and the WS stream need "read", POST routes need "trade";
+ *   /health and /metrics stay public for probes and scrapers
+ * - GET /metrics: Prometheus text format (execute outcomes and latency)
+ * - POST /execute runs in one transaction with row locks (see executeOrder)
+ * - SIGTERM/SIGINT drain HTTP and WS connections before closing Postgres
+ *   and Redis, within SHUTDOWN_TIMEOUT_MS (see src/shutdown.js)
+ * - Accounts: BUY orders reserve quantity * price at creation; fills,
+ *   amends and cancels release it (see createOrder)
  */
 
+import fs from "node:fs";
 import http from "node:http";
+import { randomUUID } from "node:crypto";
 import { WebSocketServer } from "ws";
 import postgres from "pg";
 import redis from "redis";
+import { authFromEnv } from "./auth.js";
+import { migrate } from "./migrations.js";
+import { exitOnSignals, shutdownGracefully, shutdownTimeoutFromEnv } from "./shutdown.js";
 
 const PORT_HTTP = 8080;
 const PORT_WS = 8081;
@@ -27,8 +41,543 @@ const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
 
 let pgClient = null;
 let redisClient = null;
+let httpServer = null;
+let wsServer = null;
 let wsClients = new Set();
 
+const auth = authFromEnv();
+
+// Orders created without an accountId belong to this account
+// (DEFAULT_ACCOUNT_ID in src/types.ts), created on first use
+const DEFAULT_ACCOUNT_ID = "default";
+const DEFAULT_ACCOUNT_BALANCE = Number(process.env.DEFAULT_ACCOUNT_BALANCE || 1_000_000);
+const CORS_ORIGIN = process.env.CORS_ORIGIN || "*";
+
+// The stream is JSON only, so only the JSON subprotocol is accepted (see
+// src/codec.ts); ws would otherwise agree to whatever a client offers first
+const JSON_SUBPROTOCOL = "flowdesk.json.v1";
+
+// Drain deadline on SIGTERM/SIGINT; the final metrics snapshot is written to
+// METRICS_SNAPSHOT_FILE (e.g. for a textfile collector) when set
+const SHUTDOWN_TIMEOUT_MS = shutdownTimeoutFromEnv();
+const METRICS_SNAPSHOT_FILE = process.env.METRICS_SNAPSHOT_FILE;
+
+// Ping WS clients this often; a client that misses a pong is terminated (0 disables)
+const HEARTBEAT_INTERVAL_MS = Number(process.env.HEARTBEAT_INTERVAL_MS || 30000);
+const wsAlive = new WeakMap();
+let wsDeadCount = 0;
+
+// Stream sequencing (mirrors startWsServer in src/wsServer.ts): every
+// broadcast event gets the next sequence; the last REPLAY_BUFFER_SIZE
+// events answer {type:"replay", fromSequence} requests.
+const REPLAY_BUFFER_SIZE = Number(process.env.REPLAY_BUFFER_SIZE || 1000);
+const replayBuffer = [];
+let streamSequence = 0;
+// Both reset on restart: the hello's streamId tells consumers to drop
+// their lastSequence (see HelloMessage in src/types.ts)
+const STREAM_ID = randomUUID();
+
+// At-least-once delivery (opt-in, mirrors startWsServer's ackTimeoutMs):
+// events stay pending per client until {type:"ack", eventId} arrives and
+// are resent after ACK_TIMEOUT_MS, at most MAX_REDELIVERIES times.
+const ACK_TIMEOUT_MS = Number(process.env.ACK_TIMEOUT_MS || 0);
+const MAX_REDELIVERIES = 5;
+const pendingAcks = new WeakMap();
+
+/**
+ * Send an execution event to one client, tracking it for acks when enabled
+ */
+function sendExecution(ws, event) {
+  if (ACK_TIMEOUT_MS > 0) {
+    if (!pendingAcks.has(ws)) pendingAcks.set(ws, new Map());
+    const previous = pendingAcks.get(ws).get(event.eventId);
+    pendingAcks.get(ws).set(event.eventId, {
+      event,
+      sentAt: Date.now(),
+      redeliveries: previous ? previous.redeliveries : 0,
+    });
+  }
+  ws.send(JSON.stringify(event));
+}
+
+/**
+ * Order state machine (mirrors ORDER_TRANSITIONS in src/orderLifecycle.ts).
+ * FILLED, CANCELLED, REJECTED and EXPIRED are terminal.
+ */
+const ORDER_TRANSITIONS = {
+  OPEN: ["PARTIALLY_FILLED", "FILLED", "CANCELLED", "REJECTED", "EXPIRED"],
+  PARTIALLY_FILLED: ["PARTIALLY_FILLED", "FILLED", "CANCELLED", "EXPIRED"],
+  FILLED: [],
+  CANCELLED: [],
+  REJECTED: [],
+  EXPIRED: [],
+};
+
+const TERMINAL_STATUS_REASONS = {
+  FILLED: "already_filled",
+  CANCELLED: "order_cancelled",
+  REJECTED: "order_rejected",
+  EXPIRED: "order_expired",
+};
+
+/**
+ * Prometheus metrics for /execute and the stream (text format as in
+ * src/metrics.ts; kept inline since this file runs without a build)
+ */
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const metrics = {
+  executeRequests: 0,
+  executionsApplied: 0,
+  executionsRejected: new Map(), // reason -> count
+  executeErrors: 0,
+  eventsBroadcast: 0,
+  executeDuration: { counts: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 },
+};
+
+function observeExecuteDuration(startedAt) {
+  const seconds = (performance.now() - startedAt) / 1000;
+  const histogram = metrics.executeDuration;
+  LATENCY_BUCKETS.forEach((le, i) => {
+    if (seconds <= le) histogram.counts[i]++;
+  });
+  histogram.sum += seconds;
+  histogram.count++;
+}
+
+function renderMetrics() {
+  const lines = [];
+  const metric = (name, type, help, samples) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples);
+  };
+  metric("engine_execute_requests_total", "counter", "POST /execute requests",
+    [`engine_execute_requests_total ${metrics.executeRequests}`]);
+  metric("engine_executions_applied_total", "counter", "Executions applied",
+    [`engine_executions_applied_total ${metrics.executionsApplied}`]);
+  metric("engine_executions_rejected_total", "counter", "Executions rejected, by reason",
+    [...metrics.executionsRejected].map(([reason, n]) => `engine_executions_rejected_total{reason="${reason}"} ${n}`));
+  metric("engine_execute_errors_total", "counter", "POST /execute requests that failed",
+    [`engine_execute_errors_total ${metrics.executeErrors}`]);
+  metric("engine_execute_duration_seconds", "histogram", "POST /execute handling time", [
+    ...LATENCY_BUCKETS.map((le, i) => `engine_execute_duration_seconds_bucket{le="${le}"} ${metrics.executeDuration.counts[i]}`),
+    `engine_execute_duration_seconds_bucket{le="+Inf"} ${metrics.executeDuration.count}`,
+    `engine_execute_duration_seconds_sum ${metrics.executeDuration.sum}`,
+    `engine_execute_duration_seconds_count ${metrics.executeDuration.count}`,
+  ]);
+  metric("engine_ws_events_broadcast_total", "counter", "Execution events broadcast on the stream",
+    [`engine_ws_events_broadcast_total ${metrics.eventsBroadcast}`]);
+  metric("engine_ws_clients", "gauge", "Connected WebSocket clients", [`engine_ws_clients ${wsClients.size}`]);
+  metric("engine_ws_dead_clients_total", "counter", "WebSocket clients terminated for missing a pong",
+    [`engine_ws_dead_clients_total ${wsDeadCount}`]);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Stamp an execution event with the next stream sequence, buffer it for
+ * replay and send it to every open WebSocket client
+ */
+function broadcastExecution(event) {
+  const sequenced = { ...event, sequence: ++streamSequence };
+  metrics.eventsBroadcast++;
+  replayBuffer.push(sequenced);
+  if (replayBuffer.length > REPLAY_BUFFER_SIZE) replayBuffer.shift();
+
+  wsClients.forEach(client => {
+    if (client.readyState === 1) { // OPEN
+      sendExecution(client, sequenced);
+    }
+  });
+  return sequenced;
+}
+
+/**
+ * Resend buffered events from fromSequence on; announce replay_unavailable
+ * first when part of that range was already evicted
+ */
+function replayExecutions(ws, fromSequence) {
+  const oldestSequence = replayBuffer.length > 0 ? replayBuffer[0].sequence : streamSequence + 1;
+  if (fromSequence < oldestSequence) {
+    ws.send(JSON.stringify({ type: "replay_unavailable", fromSequence, oldestSequence }));
+  }
+  for (const event of replayBuffer.slice(Math.max(0, fromSequence - oldestSequence))) {
+    sendExecution(ws, event);
+  }
+}
+
+/**
+ * Decode an id captured from the URL path. Malformed percent-encoding is
+ * the client's mistake: answer 400 invalid_path (as src/server.ts does)
+ * and return undefined, so callers just return.
+ */
+function decodePathSegment(res, segment) {
+  try {
+    return decodeURIComponent(segment);
+  } catch (e) {
+    if (!(e instanceof URIError)) throw e;
+    res.writeHead(400);
+    res.end(JSON.stringify({ error: "invalid_path" }));
+    return undefined;
+  }
+}
+
+/**
+ * Read and parse a JSON request body (empty body -> {})
+ */
+function readJsonBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(body || "{}"));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const ORDER_SIDES = ["BUY", "SELL"];
+const MAX_ORDER_QUANTITY = 2_147_483_647; // orders.quantity is an INTEGER column
+
+/**
+ * Validate a POST /orders body and apply its defaults (side BUY, the
+ * default account, price 1), so bad input is answered with a typed error
+ * instead of reaching Postgres.
+ * Returns { quantity, side, accountId, price } or { error }.
+ */
+function parseNewOrder(body) {
+  const { quantity, side = "BUY", accountId = DEFAULT_ACCOUNT_ID, price = 1 } = body ?? {};
+  if (!Number.isInteger(quantity) || quantity <= 0 || quantity > MAX_ORDER_QUANTITY) return { error: "invalid_quantity" };
+  if (!ORDER_SIDES.includes(side)) return { error: "invalid_side" };
+  if (typeof accountId !== "string" || accountId === "") return { error: "invalid_account" };
+  if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) return { error: "invalid_price" };
+  return { quantity, side, accountId, price };
+}
+
+/**
+ * Validate GET /orders query parameters.
+ * Returns { statuses?, limit, offset } or { error }.
+ */
+function parseOrderListQuery(params) {
+  const statusParam = params.get("status");
+  const statuses = statusParam ? statusParam.split(",") : undefined;
+  if (statuses?.some((s) => !(s in ORDER_TRANSITIONS))) return { error: "invalid_status" };
+
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(params.get("offset") ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE || !Number.isInteger(offset) || offset < 0) {
+    return { error: "invalid_pagination" };
+  }
+  return { statuses, limit, offset };
+}
+
+/**
+ * Applied executions (executions) and rejected attempts
+ * (execution_rejections) of one order, oldest first, in one shape:
+ * { eventId, applied, quantity, effectiveQuantity, price, fee, reason, timestamp }.
+ * reason is the RejectionReason, or "capped_overfill"/null when applied.
+ */
+async function executionHistory(orderId) {
+  const { rows } = await pgClient.query(
+    `SELECT event_id, TRUE AS applied, quantity, effective_quantity, price, fee, reason, created_at
+       FROM executions WHERE order_id = $1
+     UNION ALL
+     SELECT event_id, FALSE, quantity, 0, NULL, NULL, reason, created_at
+       FROM execution_rejections WHERE order_id = $1
+     ORDER BY created_at`,
+    [orderId]
+  );
+  const toNumber = (value) => (value === null ? null : Number(value));
+  return rows.map((row) => ({
+    eventId: row.event_id,
+    applied: row.applied,
+    quantity: toNumber(row.quantity),
+    effectiveQuantity: row.effective_quantity,
+    price: toNumber(row.price),
+    fee: toNumber(row.fee),
+    reason: row.reason,
+    timestamp: row.created_at,
+  }));
+}
+
+/**
+ * Run fn(client) inside BEGIN/COMMIT on one pooled connection; roll back
+ * and rethrow if it throws.
+ */
+async function withTransaction(fn) {
+  const client = await pgClient.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/** Round a money amount to the accounts' NUMERIC(20, 2) precision */
+function cents(amount) {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Account as returned by the API: balance is the cash held, reserved what
+ * open BUY orders hold of it, available what new orders can still use.
+ */
+function accountView(row) {
+  const balance = Number(row.balance);
+  const reserved = Number(row.reserved);
+  return { id: row.id, balance, reserved, available: cents(balance - reserved) };
+}
+
+/**
+ * Move an order to a new status if ORDER_TRANSITIONS allows it. Callers
+ * only use it for terminal statuses (cancel), so the order's remaining
+ * reservation goes back to its account. Returns { order } on success, or
+ * { status, reason } describing the rejection.
+ */
+async function transitionOrder(orderId, to) {
+  return withTransaction(async (client) => {
+    const { rows: [order] } = await client.query("SELECT * FROM orders WHERE id = $1 FOR UPDATE", [orderId]);
+    if (!order) return { status: 404, reason: "unknown_order" };
+
+    if (!ORDER_TRANSITIONS[order.status]?.includes(to)) {
+      return { status: 409, reason: TERMINAL_STATUS_REASONS[order.status] || "invalid_transition" };
+    }
+
+    await client.query("UPDATE orders SET status = $1, updated_at = NOW() WHERE id = $2", [to, orderId]);
+    return { order: await releaseReservation(client, { ...order, status: to }, Number(order.reserved)) };
+  });
+}
+
+/**
+ * Reduce an order's quantity (not below what is filled) and release the
+ * reservation for the cancelled part; amending down to the filled quantity
+ * completes the order and releases the rest.
+ * Returns { order } or { status, reason }.
+ */
+async function amendOrder(orderId, quantity) {
+  return withTransaction(async (client) => {
+    const { rows: [order] } = await client.query("SELECT * FROM orders WHERE id = $1 FOR UPDATE", [orderId]);
+    if (!order) return { status: 404, reason: "unknown_order" };
+    if (TERMINAL_STATUS_REASONS[order.status]) return { status: 409, reason: TERMINAL_STATUS_REASONS[order.status] };
+    if (!Number.isInteger(quantity) || quantity <= 0 || quantity >= order.quantity || quantity < order.filled_quantity) {
+      return { status: 400, reason: "invalid_amend_quantity" };
+    }
+
+    const { rows: [amended] } = await client.query(
+      `UPDATE orders
+         SET quantity = $1,
+             status = CASE WHEN filled_quantity = $1 THEN 'FILLED' ELSE status END,
+             updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [quantity, orderId]
+    );
+    const release = amended.status === "FILLED"
+      ? Number(order.reserved)
+      : cents((order.quantity - quantity) * Number(order.price));
+    return { order: await releaseReservation(client, amended, release) };
+  });
+}
+
+/**
+ * Create an order, reserving quantity * price on its account for BUY
+ * orders. Returns { order } or { status, reason } (404 unknown_account,
+ * 409 insufficient_balance when the account's available funds fall short).
+ */
+async function createOrder({ id, quantity, side, accountId, price }) {
+  return withTransaction(async (client) => {
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      await client.query(
+        "INSERT INTO accounts (id, balance) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING",
+        [DEFAULT_ACCOUNT_ID, DEFAULT_ACCOUNT_BALANCE]
+      );
+    }
+    const { rows: [account] } = await client.query("SELECT * FROM accounts WHERE id = $1 FOR UPDATE", [accountId]);
+    if (!account) return { status: 404, reason: "unknown_account" };
+
+    const reserved = side === "BUY" ? cents(quantity * price) : 0;
+    if (reserved > accountView(account).available) return { status: 409, reason: "insufficient_balance" };
+
+    const { rows: [order] } = await client.query(
+      `INSERT INTO orders (id, quantity, filled_quantity, status, side, account_id, price, reserved)
+       VALUES ($1, $2, 0, 'OPEN', $3, $4, $5, $6)
+       RETURNING *`,
+      [id, quantity, side, accountId, price, reserved]
+    );
+    await client.query(
+      "UPDATE accounts SET reserved = reserved + $1, updated_at = NOW() WHERE id = $2",
+      [reserved, accountId]
+    );
+    return { order };
+  });
+}
+
+/**
+ * Give back part of an order's reservation to its account (inside the
+ * caller's transaction, order row already locked). Returns the updated order.
+ */
+async function releaseReservation(client, order, amount) {
+  const released = Math.min(Number(order.reserved), amount);
+  await client.query(
+    "UPDATE accounts SET reserved = GREATEST(reserved - $1, 0), updated_at = NOW() WHERE id = $2",
+    [released, order.account_id]
+  );
+  const { rows: [updated] } = await client.query(
+    "UPDATE orders SET reserved = GREATEST(reserved - $1, 0) WHERE id = $2 RETURNING *",
+    [released, order.id]
+  );
+  return updated;
+}
+
+/**
+ * Apply one execution in a single transaction, following
+ * TradingEngine.applyExecution (src/engine.ts): same checks in the same
+ * order, overfill capped to the remaining quantity, and the fill settled
+ * against the order's account (BUY debits notional + fee, SELL credits
+ * notional - fee; price defaults to 1, fee to 0). A BUY fill may spend the
+ * account's available funds plus the share of the order's own reservation
+ * it releases (see createOrder).
+ *
+ * The order row, then the account row, is locked FOR UPDATE so concurrent
+ * executions on one order serialize instead of overwriting each other's
+ * fills. Idempotency is decided in the database: the applied execution is
+ * recorded in `executions` (keyed by event_id) in the same transaction, so
+ * a concurrent duplicate waits for the lock and then finds the row. Redis
+ * is only a cache in front of that check, written after the commit; a
+ * failed attempt leaves no trace and can be retried with the same eventId.
+ *
+ * Rejections against a known order are recorded in execution_rejections
+ * (outside the rolled-back transaction), for the order's execution history.
+ *
+ * Returns { result } (an ApplyResult) and, when applied, the updated order.
+ */
+async function executeOrder({ eventId, orderId, quantity, price = 1, fee = 0 }) {
+  const cacheKey = `execution:${eventId}`;
+  const rejected = (reason, order) => ({
+    result: {
+      applied: false,
+      reason,
+      effectiveQuantity: 0,
+      ...(order && { remainingQuantity: order.quantity - order.filled_quantity, status: order.status }),
+    },
+  });
+
+  // History only (GET /orders/:id/executions): skipped for unknown orders, never fails the request
+  const recordRejection = (db, reason) => db.query(
+    `INSERT INTO execution_rejections (event_id, order_id, quantity, reason)
+     SELECT $1, $2, $3, $4 WHERE EXISTS (SELECT 1 FROM orders WHERE id = $2)`,
+    [eventId, orderId, Number.isFinite(quantity) ? quantity : null, reason]
+  ).catch((e) => console.error("Recording rejection failed:", e.message));
+
+  // Fast path before taking any lock
+  if (await redisClient.get(cacheKey)) {
+    await recordRejection(pgClient, "duplicate_event");
+    return rejected("duplicate_event");
+  }
+
+  const client = await pgClient.connect();
+  try {
+    await client.query("BEGIN");
+    const rollback = async (reason, order) => {
+      await client.query("ROLLBACK");
+      await recordRejection(client, reason);
+      return rejected(reason, order);
+    };
+
+    // Lock first so concurrent executions on the order serialize, then check
+    // in TradingEngine's order: duplicate before unknown_order
+    const { rows: [order] } = await client.query("SELECT * FROM orders WHERE id = $1 FOR UPDATE", [orderId]);
+
+    // Authoritative check under the lock: a concurrent duplicate may have just committed
+    const { rows: seen } = await client.query("SELECT 1 FROM executions WHERE event_id = $1", [eventId]);
+    if (seen.length > 0) return await rollback("duplicate_event", order);
+
+    if (!order) {
+      await client.query("ROLLBACK");
+      return rejected("unknown_order");
+    }
+
+    const { rows: [account] } = await client.query(
+      "SELECT * FROM accounts WHERE id = $1 FOR UPDATE", [order.account_id]
+    );
+    if (!account) return await rollback("unknown_account", order);
+
+    // filled_quantity is an INTEGER column, so fractional fills are refused too
+    if (!Number.isInteger(quantity) || quantity <= 0) return await rollback("invalid_executed_quantity", order);
+    if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) return await rollback("invalid_price", order);
+    if (typeof fee !== "number" || !Number.isFinite(fee) || fee < 0) return await rollback("invalid_fee", order);
+
+    const closedReason = TERMINAL_STATUS_REASONS[order.status];
+    if (closedReason) return await rollback(closedReason, order);
+
+    const remaining = order.quantity - order.filled_quantity;
+    const effectiveQuantity = Math.min(quantity, remaining);
+    const notional = effectiveQuantity * price;
+    const isSell = order.side === "SELL";
+    // The fill consumes its share of the order's reservation (all of it once filled)
+    const released = effectiveQuantity === remaining
+      ? Number(order.reserved)
+      : Math.min(Number(order.reserved), cents(effectiveQuantity * Number(order.price)));
+    const available = Number(account.balance) - Number(account.reserved) + released;
+    if (!isSell && available < notional + fee) return await rollback("insufficient_balance", order);
+    // Would take the balance down instead of crediting it (and can trip accounts_balance_non_negative)
+    if (isSell && fee > notional) return await rollback("fee_exceeds_notional", order);
+
+    const { rows: [updated] } = await client.query(
+      `UPDATE orders
+         SET filled_quantity = filled_quantity + $1,
+             status = CASE WHEN filled_quantity + $1 = quantity THEN 'FILLED' ELSE 'PARTIALLY_FILLED' END,
+             reserved = GREATEST(reserved - $3, 0),
+             updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [effectiveQuantity, orderId, released]
+    );
+    await client.query(
+      `UPDATE accounts
+         SET balance = balance + $1, reserved = GREATEST(reserved - $2, 0), updated_at = NOW()
+       WHERE id = $3`,
+      [isSell ? notional - fee : -(notional + fee), released, account.id]
+    );
+    const reason = effectiveQuantity < quantity ? "capped_overfill" : null;
+    await client.query(
+      `INSERT INTO executions (event_id, order_id, quantity, effective_quantity, price, fee, reason)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [eventId, orderId, quantity, effectiveQuantity, price, fee, reason]
+    );
+    await client.query("COMMIT");
+
+    // Store in Redis with 1 hour TTL (a failure here only costs a cache miss)
+    await redisClient.setEx(cacheKey, 3600, "1").catch((e) => console.error("Redis cache write failed:", e.message));
+
+    return {
+      result: {
+        applied: true,
+        effectiveQuantity,
+        remainingQuantity: updated.quantity - updated.filled_quantity,
+        status: updated.status,
+        ...(reason && { reason }),
+      },
+      order: updated,
+    };
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Initialize database connection with retry logic
  */
@@ -81,10 +630,18 @@ async function initRedis() {
 function createHttpServer() {
   const server = http.createServer(async (req, res) => {
     // CORS headers
-    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Origin", CORS_ORIGIN);
     res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, X-API-Key");
     res.setHeader("Content-Type", "application/json");
 
+    // CORS preflight carries no credentials
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
     // Health check endpoint
     if (req.method === "GET" && req.url === "/health") {
       res.writeHead(200);
@@ -94,18 +651,52 @@ function createHttpServer() {
         postgres: pgClient ? "connected" : "disconnected",
         redis: redisClient ? "connected" : "disconnected",
         wsClients: wsClients.size,
+        ws: { live: wsClients.size, dead: wsDeadCount },
       }));
       return;
     }
 
-    // GET /orders - list orders from database (integration test endpoint)
-    if (req.method === "GET" && req.url === "/orders") {
+    // Prometheus scrape endpoint
+    if (req.method === "GET" && req.url === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+      res.end(renderMetrics());
+      return;
+    }
+
+    // Everything else needs credentials (when auth is enabled)
+    const access = auth.authorize(req, req.method === "GET" ? "read" : "trade");
+    if (!access.ok) {
+      const { status, ...body } = access;
+      if (status === 401) res.setHeader("WWW-Authenticate", "Bearer");
+      res.writeHead(status);
+      res.end(JSON.stringify(body));
+      return;
+    }
+
+    const url = new URL(req.url, "http://localhost");
+
+    // GET /orders[?status=OPEN,PARTIALLY_FILLED&limit=&offset=] - list orders (integration test endpoint)
+    if (req.method === "GET" && url.pathname === "/orders") {
       try {
+        const query = parseOrderListQuery(url.searchParams);
+        if (query.error) {
+          res.writeHead(400);
+          res.end(JSON.stringify({ error: query.error }));
+          return;
+        }
+        const { statuses, limit, offset } = query;
+        const where = statuses ? "WHERE status = ANY($1)" : "";
+        const params = statuses ? [statuses] : [];
+
+        // Oldest first; ids are random UUIDs, so they only break ties
         const result = await pgClient.query(
-          "SELECT id, quantity, filled_quantity, status FROM orders ORDER BY id"
+          `SELECT id, account_id, side, quantity, filled_quantity, price, reserved, status FROM orders ${where}
+           ORDER BY created_at, id LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+          [...params, limit, offset]
         );
+        const count = await pgClient.query(`SELECT COUNT(*)::int AS total FROM orders ${where}`, params);
         res.writeHead(200);
-        res.end(JSON.stringify({ orders: result.rows }));
+        res.end(JSON.stringify({ orders: result.rows, pagination: { limit, offset, total: count.rows[0].total } }));
       } catch (e) {
         console.error("GET /orders error:", e.message);
         res.writeHead(500);
@@ -114,100 +705,220 @@ function createHttpServer() {
       return;
     }
 
-    // POST /orders - create order (integration test endpoint)
-    if (req.method === "POST" && req.url === "/orders") {
-      let body = "";
-      req.on("data", chunk => { body += chunk; });
-      req.on("end", async () => {
-        try {
-          const { quantity, side } = JSON.parse(body);
-          const orderId = `ORD-${Date.now()}`;
-          
-          await pgClient.query(
-            "INSERT INTO orders (id, quantity, filled_quantity, status, side) VALUES ($1, $2, 0, 'OPEN', $3)",
-            [orderId, quantity, side || "BUY"]
-          );
-
-          res.writeHead(201);
-          res.end(JSON.stringify({ orderId, quantity, status: "OPEN" }));
-        } catch (e) {
-          console.error("POST /orders error:", e.message);
+    // GET /orders/:id - one order
+    const orderMatch = req.method === "GET" && url.pathname.match(/^\/orders\/([^/]+)$/);
+    if (orderMatch) {
+      const orderId = decodePathSegment(res, orderMatch[1]);
+      if (orderId === undefined) return;
+      try {
+        const result = await pgClient.query("SELECT * FROM orders WHERE id = $1", [orderId]);
+        if (!result.rows[0]) {
+          res.writeHead(404);
+          res.end(JSON.stringify({ error: "unknown_order" }));
+          return;
+        }
+        res.writeHead(200);
+        res.end(JSON.stringify({ order: result.rows[0] }));
+      } catch (e) {
+        console.error("GET /orders/:id error:", e.message);
+        res.writeHead(500);
+        res.end(JSON.stringify({ error: e.message }));
+      }
+      return;
+    }
+
+    // GET /orders/:id/executions - applied and rejected executions, oldest first
+    const executionsMatch = req.method === "GET" && url.pathname.match(/^\/orders\/([^/]+)\/executions$/);
+    if (executionsMatch) {
+      const orderId = decodePathSegment(res, executionsMatch[1]);
+      if (orderId === undefined) return;
+      try {
+        const order = await pgClient.query("SELECT id FROM orders WHERE id = $1", [orderId]);
+        if (!order.rows[0]) {
+          res.writeHead(404);
+          res.end(JSON.stringify({ error: "unknown_order" }));
+          return;
+        }
+        res.writeHead(200);
+        res.end(JSON.stringify({ orderId, executions: await executionHistory(orderId) }));
+      } catch (e) {
+        console.error("GET /orders/:id/executions error:", e.message);
+        res.writeHead(500);
+        res.end(JSON.stringify({ error: e.message }));
+      }
+      return;
+    }
+
+    // POST /orders - create order ({ quantity, side?, accountId?, price? }), reserving funds for BUY orders
+    if (req.method === "POST" && url.pathname === "/orders") {
+      try {
+        const parsed = parseNewOrder(await readJsonBody(req));
+        if (parsed.error) {
+          res.writeHead(400);
+          res.end(JSON.stringify({ error: parsed.error }));
+          return;
+        }
+        const { quantity, side, accountId, price } = parsed;
+        const orderId = `ORD-${randomUUID()}`;
+
+        const result = await createOrder({ id: orderId, quantity, side, accountId, price });
+        if (!result.order) {
+          res.writeHead(result.status);
+          res.end(JSON.stringify({ error: result.reason }));
+          return;
+        }
+
+        res.writeHead(201);
+        res.end(JSON.stringify({ orderId, quantity, status: "OPEN", accountId, reserved: Number(result.order.reserved) }));
+      } catch (e) {
+        if (e instanceof SyntaxError) {
+          res.writeHead(400);
+          res.end(JSON.stringify({ error: "invalid_json" }));
+          return;
+        }
+        console.error("POST /orders error:", e.message);
+        res.writeHead(500);
+        res.end(JSON.stringify({ error: e.message }));
+      }
+      return;
+    }
+
+    // POST /accounts - open an account ({ id?, balance? })
+    if (req.method === "POST" && url.pathname === "/accounts") {
+      try {
+        const { id = `ACC-${randomUUID()}`, balance = 0 } = await readJsonBody(req);
+        if (typeof id !== "string" || id === "" || typeof balance !== "number" || !Number.isFinite(balance) || balance < 0) {
           res.writeHead(400);
-          res.end(JSON.stringify({ error: e.message }));
+          res.end(JSON.stringify({ error: "invalid_account" }));
+          return;
+        }
+
+        const result = await pgClient.query(
+          "INSERT INTO accounts (id, balance) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING RETURNING *",
+          [id, balance]
+        );
+        if (!result.rows[0]) {
+          res.writeHead(409);
+          res.end(JSON.stringify({ error: "account_exists" }));
+          return;
         }
-      });
+        res.writeHead(201);
+        res.end(JSON.stringify({ account: accountView(result.rows[0]) }));
+      } catch (e) {
+        console.error("POST /accounts error:", e.message);
+        res.writeHead(400);
+        res.end(JSON.stringify({ error: e.message }));
+      }
+      return;
+    }
+
+    // GET /accounts/:id - balance, reserved and available funds
+    const accountMatch = req.method === "GET" && url.pathname.match(/^\/accounts\/([^/]+)$/);
+    if (accountMatch) {
+      const accountId = decodePathSegment(res, accountMatch[1]);
+      if (accountId === undefined) return;
+      try {
+        const result = await pgClient.query("SELECT * FROM accounts WHERE id = $1", [accountId]);
+        if (!result.rows[0]) {
+          res.writeHead(404);
+          res.end(JSON.stringify({ error: "unknown_account" }));
+          return;
+        }
+        res.writeHead(200);
+        res.end(JSON.stringify({ account: accountView(result.rows[0]) }));
+      } catch (e) {
+        console.error("GET /accounts/:id error:", e.message);
+        res.writeHead(500);
+        res.end(JSON.stringify({ error: e.message }));
+      }
+      return;
+    }
+
+    // POST /orders/:id/cancel - cancel an open or partially filled order
+    const cancelMatch = req.method === "POST" && url.pathname.match(/^\/orders\/([^/]+)\/cancel$/);
+    if (cancelMatch) {
+      const orderId = decodePathSegment(res, cancelMatch[1]);
+      if (orderId === undefined) return;
+      try {
+        const result = await transitionOrder(orderId, "CANCELLED");
+        if (!result.order) {
+          res.writeHead(result.status);
+          res.end(JSON.stringify({ error: result.reason }));
+          return;
+        }
+        res.writeHead(200);
+        res.end(JSON.stringify({ order: result.order }));
+      } catch (e) {
+        console.error("POST /orders/:id/cancel error:", e.message);
+        res.writeHead(500);
+        res.end(JSON.stringify({ error: e.message }));
+      }
+      return;
+    }
+
+    // POST /orders/:id/amend - reduce order quantity ({ quantity })
+    const amendMatch = req.method === "POST" && url.pathname.match(/^\/orders\/([^/]+)\/amend$/);
+    if (amendMatch) {
+      const orderId = decodePathSegment(res, amendMatch[1]);
+      if (orderId === undefined) return;
+      try {
+        const { quantity } = await readJsonBody(req);
+
+        const result = await amendOrder(orderId, quantity);
+        if (!result.order) {
+          res.writeHead(result.status);
+          res.end(JSON.stringify({ error: result.reason }));
+          return;
+        }
+        res.writeHead(200);
+        res.end(JSON.stringify({ order: result.order }));
+      } catch (e) {
+        console.error("POST /orders/:id/amend error:", e.message);
+        res.writeHead(400);
+        res.end(JSON.stringify({ error: e.message }));
+      }
       return;
     }
 
     // POST /execute - simulate execution event (integration test endpoint)
     if (req.method === "POST" && req.url === "/execute") {
-      let body = "";
-      req.on("data", chunk => { body += chunk; });
-      req.on("end", async () => {
-        try {
-          const { orderId, quantity, eventId: clientEventId } = JSON.parse(body);
-          const eventId = clientEventId || `EXE-${Date.now()}`;
-
-          // Check idempotency cache in Redis
-          const cacheKey = `execution:${eventId}`;
-          const cached = await redisClient.get(cacheKey);
-          if (cached) {
-            res.writeHead(200);
-            res.end(JSON.stringify({ applied: false, reason: "duplicate", eventId }));
-            return;
-          }
-
-          // Store in Redis with 1 hour TTL
-          await redisClient.setEx(cacheKey, 3600, "1");
-
-          // Update order in database
-          await pgClient.query(
-            "UPDATE orders SET filled_quantity = filled_quantity + $1 WHERE id = $2",
-            [quantity, orderId]
-          );
-
-          // Get updated order
-          const result = await pgClient.query(
-            "SELECT * FROM orders WHERE id = $1",
-            [orderId]
-          );
-
-          const order = result.rows[0];
-          if (order.filled_quantity >= order.quantity) {
-            await pgClient.query(
-              "UPDATE orders SET status = 'FILLED' WHERE id = $1",
-              [orderId]
-            );
-          } else if (order.filled_quantity > 0) {
-            await pgClient.query(
-              "UPDATE orders SET status = 'PARTIALLY_FILLED' WHERE id = $1",
-              [orderId]
-            );
-          }
+      const startedAt = performance.now();
+      metrics.executeRequests++;
+      try {
+        const { orderId, quantity, price, fee, eventId: clientEventId } = await readJsonBody(req);
+        const eventId = clientEventId || `EXE-${randomUUID()}`;
 
-          // Broadcast execution event to all WebSocket clients
-          const event = JSON.stringify({
-            type: "execution",
-            eventId,
-            orderId,
-            executedQuantity: quantity,
-            timestamp: Date.now(),
-          });
-
-          wsClients.forEach(client => {
-            if (client.readyState === 1) { // OPEN
-              client.send(event);
-            }
-          });
+        // Responses follow ApplyResult / RejectionReason in src/types.ts
+        const { result, order } = await executeOrder({ eventId, orderId, quantity, price, fee });
+        observeExecuteDuration(startedAt);
 
+        if (!result.applied) {
+          metrics.executionsRejected.set(result.reason, (metrics.executionsRejected.get(result.reason) || 0) + 1);
           res.writeHead(200);
-          res.end(JSON.stringify({ applied: true, eventId, order }));
-        } catch (e) {
-          console.error("POST /execute error:", e.message);
-          res.writeHead(400);
-          res.end(JSON.stringify({ error: e.message }));
+          res.end(JSON.stringify({ ...result, eventId }));
+          return;
         }
-      });
+
+        // Broadcast what was actually filled (capped quantity, not the request)
+        broadcastExecution({
+          type: "execution",
+          eventId,
+          orderId,
+          executedQuantity: result.effectiveQuantity,
+          ...(price !== undefined && { price }),
+          ...(fee !== undefined && { fee }),
+          timestamp: Date.now(),
+        });
+
+        metrics.executionsApplied++;
+        res.writeHead(200);
+        res.end(JSON.stringify({ ...result, eventId, order }));
+      } catch (e) {
+        metrics.executeErrors++;
+        console.error("POST /execute error:", e.message);
+        res.writeHead(400);
+        res.end(JSON.stringify({ error: e.message }));
+      }
       return;
     }
 
@@ -223,15 +934,42 @@ function createHttpServer() {
  * Create WebSocket server for streaming execution events
  */
 function createWsServer() {
-  const wss = new WebSocketServer({ port: PORT_WS });
+  const wss = new WebSocketServer({
+    port: PORT_WS,
+    handleProtocols: (offered) => (offered.has(JSON_SUBPROTOCOL) ? JSON_SUBPROTOCOL : false),
+    // Streaming executions needs the "read" scope
+    verifyClient: (info, done) => {
+      const access = auth.authorizeUpgrade(info.req, "read");
+      if (access.ok) return done(true);
+      done(false, access.status, access.error);
+    },
+  });
 
   wss.on("connection", (ws) => {
     console.log(`WebSocket client connected (total: ${wsClients.size + 1})`);
     wsClients.add(ws);
+    wsAlive.set(ws, true);
+    ws.on("pong", () => wsAlive.set(ws, true));
+    ws.send(JSON.stringify({ type: "hello", ok: true, streamId: STREAM_ID }));
 
     ws.on("message", (data) => {
-      // Echo messages for testing
       console.log(`WebSocket message received: ${data}`);
+      let msg = null;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        // not JSON: echoed below
+      }
+      if (msg && msg.type === "replay" && Number.isInteger(msg.fromSequence) && msg.fromSequence >= 0) {
+        replayExecutions(ws, msg.fromSequence);
+        return;
+      }
+      if (msg && msg.type === "ack" && typeof msg.eventId === "string") {
+        if (pendingAcks.has(ws)) pendingAcks.get(ws).delete(msg.eventId);
+        return;
+      }
+
+      // Echo other messages for testing
       ws.send(JSON.stringify({ type: "ack", message: data.toString() }));
     });
 
@@ -246,36 +984,47 @@ function createWsServer() {
     });
   });
 
-  return wss;
-}
-
-/**
- * Initialize database schema
- */
-async function initSchema() {
-  try {
-    await pgClient.query(`
-      CREATE TABLE IF NOT EXISTS orders (
-        id VARCHAR(50) PRIMARY KEY,
-        quantity INTEGER NOT NULL,
-        filled_quantity INTEGER NOT NULL DEFAULT 0,
-        status VARCHAR(20) NOT NULL DEFAULT 'OPEN',
-        side VARCHAR(10) NOT NULL DEFAULT 'BUY',
-        created_at TIMESTAMP DEFAULT NOW(),
-        updated_at TIMESTAMP DEFAULT NOW()
-      );
+  // Heartbeat: terminate half-open clients that didn't answer the previous ping
+  if (HEARTBEAT_INTERVAL_MS > 0) {
+    const heartbeat = setInterval(() => {
+      for (const ws of wsClients) {
+        if (wsAlive.get(ws) === false) {
+          wsDeadCount++;
+          wsClients.delete(ws);
+          console.log(`Terminating unresponsive WebSocket client (dead so far: ${wsDeadCount})`);
+          ws.terminate();
+          continue;
+        }
+        wsAlive.set(ws, false);
+        ws.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    wss.on("close", () => clearInterval(heartbeat));
+  }
 
-      CREATE TABLE IF NOT EXISTS accounts (
-        id VARCHAR(50) PRIMARY KEY,
-        balance NUMERIC(20, 2) NOT NULL DEFAULT 1000.00,
-        created_at TIMESTAMP DEFAULT NOW(),
-        updated_at TIMESTAMP DEFAULT NOW()
-      );
-    `);
-    console.log("✓ Database schema initialized");
-  } catch (e) {
-    console.error("Schema init warning (may already exist):", e.message);
+  // Redeliver events whose ack is overdue
+  if (ACK_TIMEOUT_MS > 0) {
+    const ackSweep = setInterval(() => {
+      const now = Date.now();
+      for (const ws of wsClients) {
+        const pending = pendingAcks.get(ws);
+        if (!pending || ws.readyState !== 1) continue;
+        for (const [eventId, entry] of pending) {
+          if (now - entry.sentAt < ACK_TIMEOUT_MS) continue;
+          if (entry.redeliveries >= MAX_REDELIVERIES) {
+            pending.delete(eventId);
+            continue;
+          }
+          entry.redeliveries++;
+          entry.sentAt = now;
+          ws.send(JSON.stringify(entry.event));
+        }
+      }
+    }, Math.max(1, ACK_TIMEOUT_MS / 2));
+    wss.on("close", () => clearInterval(ackSweep));
   }
+
+  return wss;
 }
 
 /**
@@ -284,23 +1033,25 @@ async function initSchema() {
 async function start() {
   try {
     console.log("🚀 Starting Mock Trading Engine...");
+    console.log(`   Auth: ${auth.enabled ? "enabled" : "disabled (set API_KEYS or AUTH_TOKEN_SECRET)"}`);
     
     // Connect to external services
     pgClient = await initPostgres();
     redisClient = await initRedis();
     
-    // Initialize schema
-    await initSchema();
+    // Bring the schema up to date (migrations/, see src/migrations.js)
+    const applied = await migrate(pgClient, { log: (message) => console.log(`  ${message}`) });
+    console.log(`✓ Database schema up to date (${applied.length} migration(s) applied)`);
 
     // Start HTTP server
-    const httpServer = createHttpServer();
+    httpServer = createHttpServer();
     httpServer.listen(PORT_HTTP, () => {
       console.log(`✓ HTTP server listening on port ${PORT_HTTP}`);
       console.log(`  Health check: http://localhost:${PORT_HTTP}/health`);
     });
 
     // Start WebSocket server
-    const wsServer = createWsServer();
+    wsServer = createWsServer();
     wsServer.on("listening", () => {
       console.log(`✓ WebSocket server listening on port ${PORT_WS}`);
     });
@@ -312,12 +1063,34 @@ async function start() {
   }
 }
 
-// Handle graceful shutdown
-process.on("SIGTERM", async () => {
-  console.log("Shutting down...");
-  if (pgClient) await pgClient.end();
-  if (redisClient) await redisClient.quit();
-  process.exit(0);
-});
+/**
+ * Drain HTTP requests and WS clients, then flush metrics and close the
+ * Redis and Postgres connections in-flight requests were still using
+ */
+async function shutdown() {
+  const result = await shutdownGracefully({
+    httpServers: httpServer ? [httpServer] : [],
+    wsServers: wsServer ? [wsServer] : [],
+    timeoutMs: SHUTDOWN_TIMEOUT_MS,
+    flush: [
+      {
+        name: "metrics",
+        run: () => {
+          const rejected = [...metrics.executionsRejected.values()].reduce((sum, n) => sum + n, 0);
+          console.log(`  Executions: ${metrics.executionsApplied} applied, ${rejected} rejected, ${metrics.executeErrors} errors`);
+          if (METRICS_SNAPSHOT_FILE) fs.writeFileSync(METRICS_SNAPSHOT_FILE, renderMetrics());
+        },
+      },
+      { name: "redis", run: async () => { if (redisClient) await redisClient.quit(); } },
+      { name: "postgres", run: async () => { if (pgClient) await pgClient.end(); } },
+    ],
+  });
+  console.log(result.completed
+    ? `✓ Shut down in ${result.elapsedMs}ms`
+    : `❌ Shutdown incomplete: ${result.failedSteps.join(", ") || "deadline exceeded"}`);
+  return result;
+}
+
+exitOnSignals(shutdown);
 
 start();
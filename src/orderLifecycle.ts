@@ -0,0 +1,47 @@
+import type { OrderStatus, TerminalStatusReason } from "./types.js";
+
+/**
+ * Order state machine.
+ *
+ * Fills move an order forward (OPEN -> PARTIALLY_FILLED -> FILLED);
+ * cancel/expire/reject are explicit operations. FILLED, CANCELLED,
+ * REJECTED and EXPIRED are terminal: nothing leaves them.
+ *
+ * REJECTED is only reachable before any fill (e.g. a risk check failing
+ * after the order was accepted), so partially filled orders can't be rejected.
+ */
+export const ORDER_TRANSITIONS: Readonly<Record<OrderStatus, readonly OrderStatus[]>> = {
+  OPEN: ["PARTIALLY_FILLED", "FILLED", "CANCELLED", "REJECTED", "EXPIRED"],
+  PARTIALLY_FILLED: ["PARTIALLY_FILLED", "FILLED", "CANCELLED", "EXPIRED"],
+  FILLED: [],
+  CANCELLED: [],
+  REJECTED: [],
+  EXPIRED: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Rejection reason for operating on an order in a terminal status,
+ * or undefined if the order can still change.
+ */
+export function terminalStatusReason(status: OrderStatus): TerminalStatusReason | undefined {
+  switch (status) {
+    case "FILLED":
+      return "already_filled";
+    case "CANCELLED":
+      return "order_cancelled";
+    case "REJECTED":
+      return "order_rejected";
+    case "EXPIRED":
+      return "order_expired";
+    default:
+      return undefined;
+  }
+}
@@ -1,14 +1,204 @@
 import http from "node:http";
+import { randomUUID } from "node:crypto";
+import type { WsServerStats } from "./wsServer.js";
+import type { MetricsRegistry } from "./metrics.js";
+import type { NewOrder, TradingEngine } from "./engine.js";
+import { DEFAULT_ACCOUNT_ID, type ExecutionEvent } from "./types.js";
+import { validateInboundMessage, type ValidationIssue } from "./messageValidation.js";
 
-export function createServer() {
+export interface ServerOptions {
+  /** Source of WebSocket connection counts, reported as `ws` in /health */
+  wsStats?: () => WsServerStats;
+  /** Served in Prometheus text format on GET /metrics (404 when absent) */
+  metrics?: MetricsRegistry;
+  /** Exposed over the order/account/execution routes below (404 when absent) */
+  engine?: TradingEngine;
+  /** Called with every execution the engine applied, e.g. a wsServer's broadcast */
+  onExecution?: (event: ExecutionEvent) => void;
+}
+
+/**
+ * HTTP API over the TypeScript TradingEngine. Request and response shapes
+ * follow the JavaScript mock engine (src/mockEngine.js), so e2e tests can
+ * run against either:
+ *
+ *   GET  /health                  { ok, ws? }
+ *   GET  /metrics                 Prometheus text
+ *   GET  /orders[?accountId=]     { orders }
+ *   POST /orders                  { quantity, id?, side?, accountId?, instrument? } -> 201 { orderId, quantity, status }
+ *   GET  /orders/:id              { order }                   404 unknown_order
+ *   POST /orders/:id/cancel       { order }                   404 unknown_order, 409 terminal status
+ *   GET  /accounts/:id            { account }                 404 unknown_account
+ *   POST /execute                 { orderId, quantity, eventId?, price?, fee? } -> ApplyResult + eventId
+ *
+ * Errors are JSON `{ error }` bodies; `error` is the engine's rejection
+ * reason where there is one. /execute answers 200 for rejections too: the
+ * body is the engine's ApplyResult, as with the mock. A path with malformed
+ * percent-encoding answers 400 invalid_path.
+ *
+ * onExecution receives the event as applied, built from the engine's order
+ * (its accountId, the capped quantity); client-sent accountId, sequence or
+ * timestamp fields are ignored.
+ */
+export function createServer(options: ServerOptions = {}) {
   return http.createServer((req, res) => {
-    if (req.method === "GET" && req.url === "/health") {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (req.method === "GET" && url.pathname === "/health") {
       res.writeHead(200, { "content-type": "application/json" });
-      res.end(JSON.stringify({ ok: true }));
+      res.end(JSON.stringify(options.wsStats ? { ok: true, ws: options.wsStats() } : { ok: true }));
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/metrics" && options.metrics) {
+      res.writeHead(200, { "content-type": "text/plain; version=0.0.4" });
+      res.end(options.metrics.render());
       return;
     }
 
-    res.writeHead(404);
-    res.end();
+    if (options.engine) {
+      handleEngineRoute(options.engine, options, req, url)
+        .then((reply) => {
+          if (reply) sendJson(res, reply.status, reply.body);
+          else notFound(res);
+        })
+        .catch((e: unknown) => sendJson(res, 500, { error: e instanceof Error ? e.message : String(e) }));
+      return;
+    }
+
+    notFound(res);
   });
 }
+
+interface Reply {
+  status: number;
+  body: unknown;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function notFound(res: http.ServerResponse) {
+  res.writeHead(404);
+  res.end();
+}
+
+class InvalidJsonError extends Error {}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  let body = "";
+  for await (const chunk of req) body += String(chunk);
+  try {
+    return JSON.parse(body || "{}");
+  } catch (e) {
+    throw new InvalidJsonError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkNewOrder(body: unknown): { ok: true; value: Omit<NewOrder, "id"> & { id?: string } } | { ok: false; issues: ValidationIssue[] } {
+  if (!isRecord(body)) return { ok: false, issues: [{ path: "$", message: "expected object" }] };
+
+  const issues: ValidationIssue[] = [];
+  if (typeof body.quantity !== "number" || !Number.isFinite(body.quantity) || body.quantity <= 0) {
+    issues.push({ path: "$.quantity", message: "expected positive number" });
+  }
+  if (body.side !== undefined && body.side !== "BUY" && body.side !== "SELL") {
+    issues.push({ path: "$.side", message: 'expected "BUY" or "SELL"' });
+  }
+  for (const key of ["id", "accountId", "instrument"] as const) {
+    if (body[key] !== undefined && (typeof body[key] !== "string" || body[key] === "")) {
+      issues.push({ path: `$.${key}`, message: "expected non-empty string" });
+    }
+  }
+  if (issues.length > 0) return { ok: false, issues };
+
+  return { ok: true, value: body as unknown as Omit<NewOrder, "id"> & { id?: string } };
+}
+
+async function handleEngineRoute(
+  engine: TradingEngine,
+  options: ServerOptions,
+  req: http.IncomingMessage,
+  url: URL
+): Promise<Reply | undefined> {
+  try {
+    const segments = url.pathname.split("/").slice(1).map(decodeURIComponent);
+
+    if (url.pathname === "/orders" && req.method === "GET") {
+      const accountId = url.searchParams.get("accountId");
+      return { status: 200, body: { orders: engine.listOrders(accountId === null ? {} : { accountId }) } };
+    }
+
+    if (url.pathname === "/orders" && req.method === "POST") {
+      const checked = checkNewOrder(await readJsonBody(req));
+      if (!checked.ok) return { status: 400, body: { error: "invalid_request", issues: checked.issues } };
+
+      const id = checked.value.id ?? `ORD-${randomUUID()}`;
+      if (engine.getOrder(id)) return { status: 409, body: { error: "order_exists" } };
+      const order = engine.createOrder({ ...checked.value, id });
+      return { status: 201, body: { orderId: order.id, quantity: order.quantity, status: order.status } };
+    }
+
+    if (segments[0] === "orders" && segments.length === 2 && req.method === "GET") {
+      const order = engine.getOrder(segments[1] ?? "");
+      return order ? { status: 200, body: { order } } : { status: 404, body: { error: "unknown_order" } };
+    }
+
+    if (segments[0] === "orders" && segments[2] === "cancel" && segments.length === 3 && req.method === "POST") {
+      const orderId = segments[1] ?? "";
+      const result = engine.cancelOrder(orderId);
+      if (!result.applied) {
+        return { status: result.reason === "unknown_order" ? 404 : 409, body: { error: result.reason } };
+      }
+      return { status: 200, body: { order: engine.getOrder(orderId) } };
+    }
+
+    if (segments[0] === "accounts" && segments.length === 2 && req.method === "GET") {
+      const account = engine.getAccount(segments[1]);
+      return account ? { status: 200, body: { account } } : { status: 404, body: { error: "unknown_account" } };
+    }
+
+    if (url.pathname === "/execute" && req.method === "POST") {
+      const body = await readJsonBody(req);
+      const { orderId, quantity, eventId, price, fee } = isRecord(body) ? body : {};
+      const checked = validateInboundMessage({
+        type: "execution",
+        eventId: eventId ?? `EXE-${randomUUID()}`,
+        orderId,
+        executedQuantity: quantity,
+        ...(price !== undefined && { price }),
+        ...(fee !== undefined && { fee }),
+      });
+      if (!checked.ok) {
+        // Report the field under the name the client sent
+        const issues = checked.issues.map((i) => ({ ...i, path: i.path.replace("$.executedQuantity", "$.quantity") }));
+        return { status: 400, body: { error: "invalid_request", issues } };
+      }
+      if (checked.value.type !== "execution") return undefined; // unreachable: type is set above
+
+      const event = checked.value;
+      const result = engine.applyExecution(event);
+      if (result.applied) {
+        // Broadcast what was actually filled, on the order's own account
+        options.onExecution?.({
+          ...event,
+          accountId: engine.getOrder(event.orderId)?.accountId ?? DEFAULT_ACCOUNT_ID,
+          executedQuantity: result.effectiveQuantity,
+        });
+      }
+      return { status: 200, body: { ...result, eventId: event.eventId } };
+    }
+  } catch (e) {
+    if (e instanceof InvalidJsonError) return { status: 400, body: { error: "invalid_json", message: e.message } };
+    if (e instanceof URIError) return { status: 400, body: { error: "invalid_path" } };
+    throw e;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,193 @@
+// @ts-check
+
+/**
+ * Graceful shutdown for the engine services (SIGTERM from docker stop,
+ * Kubernetes or CI teardown).
+ *
+ * Plain JS so src/mockEngine.js and engine/src/server.js can import it
+ * without a build step; the JSDoc types are checked by tsc (allowJs).
+ *
+ * Drain order:
+ * 1. stop accepting connections; requests already in flight finish, and
+ *    kept-alive connections are closed as soon as they go idle
+ * 2. send every WebSocket client a close frame (1001 going away + reason)
+ *    and wait for the close handshakes
+ * 3. run the flush steps in order (metrics, caches, database pools); a
+ *    failing step is reported and the next one still runs
+ *
+ * The whole drain is bounded by timeoutMs (SHUTDOWN_TIMEOUT_MS): past it,
+ * remaining sockets are destroyed and the caller exits non-zero.
+ *
+ * Interview talking points:
+ * - The deadline must stay below the orchestrator's grace period
+ *   (docker stop: 10s, Kubernetes terminationGracePeriodSeconds: 30s),
+ *   otherwise SIGKILL cuts the drain short anyway
+ * - Clients reconnect on 1001; the new process announces a new streamId,
+ *   so they replay its stream from sequence 1. Events the old process
+ *   broadcast but a client never received die with its in-memory replay
+ *   buffer; surviving restarts needs a durable log (e.g. the journal)
+ * - Readiness should fail before the drain starts so load balancers stop
+ *   routing new traffic (preStop hook)
+ */
+
+/**
+ * @typedef {{ name: string; run: () => void | Promise<void> }} FlushStep
+ * @typedef {{
+ *   httpServers?: import("node:http").Server[];
+ *   wsServers?: import("ws").WebSocketServer[];
+ *   closeReason?: string;
+ *   timeoutMs?: number;
+ *   flush?: FlushStep[];
+ *   log?: (message: string) => void;
+ * }} ShutdownOptions
+ * @typedef {{ completed: boolean; failedSteps: string[]; elapsedMs: number }} ShutdownResult
+ */
+
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10_000;
+
+// RFC 6455: endpoint is going away (server shutdown)
+export const WS_CLOSE_GOING_AWAY = 1001;
+
+// How often kept-alive connections are checked for idleness during a drain
+const IDLE_SWEEP_MS = 50;
+
+/**
+ * Read SHUTDOWN_TIMEOUT_MS (milliseconds, default 10000).
+ *
+ * @param {Record<string, string | undefined>} [env]
+ * @returns {number}
+ */
+export function shutdownTimeoutFromEnv(env = process.env) {
+  const raw = env.SHUTDOWN_TIMEOUT_MS;
+  if (raw === undefined || raw === "") return DEFAULT_SHUTDOWN_TIMEOUT_MS;
+  const timeoutMs = Number(raw);
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) throw new Error(`Invalid SHUTDOWN_TIMEOUT_MS: ${raw}`);
+  return timeoutMs;
+}
+
+/**
+ * Stop accepting connections and resolve once every open one has closed.
+ * Requests arriving on kept-alive connections meanwhile are answered with
+ * Connection: close.
+ *
+ * @param {import("node:http").Server} server
+ * @returns {Promise<void>}
+ */
+function closeHttpServer(server) {
+  return new Promise((resolve) => {
+    server.prependListener("request", (_req, res) => res.setHeader("Connection", "close"));
+    // server.close() alone waits for kept-alive sockets to time out
+    const idleSweep = setInterval(() => server.closeIdleConnections(), IDLE_SWEEP_MS);
+    server.close(() => {
+      clearInterval(idleSweep);
+      resolve();
+    });
+    server.closeIdleConnections();
+  });
+}
+
+/**
+ * Send every client a close frame and resolve once all of them are gone.
+ *
+ * @param {import("ws").WebSocketServer} wss
+ * @param {string} reason
+ * @returns {Promise<void>}
+ */
+function closeWsServer(wss, reason) {
+  return new Promise((resolve) => {
+    wss.close(() => resolve());
+    for (const client of wss.clients) client.close(WS_CLOSE_GOING_AWAY, reason);
+  });
+}
+
+/**
+ * Drain the given servers, then run the flush steps, within timeoutMs.
+ * Resolves with completed: false when the deadline hit first (remaining
+ * connections are destroyed) — never rejects.
+ *
+ * @param {ShutdownOptions} [options]
+ * @returns {Promise<ShutdownResult>}
+ */
+export async function shutdownGracefully(options = {}) {
+  const {
+    httpServers = [],
+    wsServers = [],
+    closeReason = "server shutting down",
+    timeoutMs = DEFAULT_SHUTDOWN_TIMEOUT_MS,
+    flush = [],
+    log = console.log,
+  } = options;
+  const startedAt = Date.now();
+  /** @type {string[]} */
+  const failedSteps = [];
+  let timedOut = false;
+
+  const drain = (async () => {
+    await Promise.all([
+      ...httpServers.map((server) => closeHttpServer(server)),
+      ...wsServers.map((wss) => closeWsServer(wss, closeReason)),
+    ]);
+    if (timedOut) return false; // the caller is already exiting
+    log(`Connections drained (${Date.now() - startedAt}ms)`);
+
+    for (const step of flush) {
+      try {
+        await step.run();
+      } catch (e) {
+        failedSteps.push(step.name);
+        log(`Flush step ${step.name} failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    return true;
+  })();
+
+  /** @type {ReturnType<typeof setTimeout> | undefined} */
+  let timer;
+  const deadline = new Promise((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  const completed = await Promise.race([drain, deadline]);
+  clearTimeout(timer);
+
+  if (!completed) {
+    timedOut = true;
+    log(`Shutdown deadline of ${timeoutMs}ms exceeded; closing remaining connections`);
+    for (const server of httpServers) server.closeAllConnections();
+    for (const wss of wsServers) {
+      for (const client of wss.clients) client.terminate();
+    }
+  }
+  return { completed: completed === true && failedSteps.length === 0, failedSteps, elapsedMs: Date.now() - startedAt };
+}
+
+/**
+ * Run `shutdown` once on SIGTERM or SIGINT and exit with 0 when it
+ * completed, 1 otherwise. A second signal exits immediately.
+ *
+ * @param {() => Promise<ShutdownResult>} shutdown
+ * @param {{ log?: (message: string) => void }} [options]
+ * @returns {void}
+ */
+export function exitOnSignals(shutdown, options = {}) {
+  const log = options.log ?? console.log;
+  let shuttingDown = false;
+
+  /** @param {NodeJS.Signals} signal */
+  const onSignal = (signal) => {
+    if (shuttingDown) {
+      log(`${signal} received again, exiting now`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    log(`${signal} received, shutting down...`);
+    shutdown().then(
+      (result) => process.exit(result.completed ? 0 : 1),
+      (e) => {
+        log(`Shutdown failed: ${e instanceof Error ? e.message : String(e)}`);
+        process.exit(1);
+      }
+    );
+  };
+  process.on("SIGTERM", onSignal);
+  process.on("SIGINT", onSignal);
+}
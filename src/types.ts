@@ -1,28 +1,235 @@
-export type OrderStatus = "OPEN" | "PARTIALLY_FILLED" | "FILLED";
+export type OrderStatus =
+  | "OPEN"
+  | "PARTIALLY_FILLED"
+  | "FILLED"
+  | "CANCELLED"
+  | "REJECTED"
+  | "EXPIRED";
+export type OrderSide = "BUY" | "SELL";
 
 export interface Order {
   id: string;
+  accountId?: string;     // owning account; defaults to DEFAULT_ACCOUNT_ID when omitted
+  side?: OrderSide;       // defaults to BUY when omitted
+  instrument?: string;    // enables position tracking on the owning account
   quantity: number;
   filledQuantity: number;
+  filledNotional?: number;   // sum of price * quantity over applied fills
+  averageFillPrice?: number; // filledNotional / filledQuantity
   status: OrderStatus;
 }
 
 export interface Account {
+  id?: string;            // defaults to DEFAULT_ACCOUNT_ID when omitted
   balance: number;
+  positions?: Record<string, number>; // held quantity per instrument
 }
 
+/**
+ * Account used for orders that don't name one.
+ * Keeps single-account setups (one order, one balance) working unchanged.
+ */
+export const DEFAULT_ACCOUNT_ID = "default";
+
 /**
  * WebSocket execution event structure.
  * eventId is mandatory for deduplication (idempotency key).
- * 
+ *
  * Real-world considerations:
  * - eventId ensures at-least-once delivery doesn't cause double-fills
- * - timestamp could be added for ordering/debugging
- * - price field would be needed for real executions
+ * - timestamp (set by the producer) feeds consumer latency metrics
+ * - price is optional so quantity-only streams keep working: they are
+ *   treated as unit-priced (notional == quantity)
  */
 export interface ExecutionEvent {
   type: "execution";
   eventId: string;        // unique execution identifier (idempotency key)
   orderId: string;
+  accountId?: string;     // owning account, used to route events to account subscribers
   executedQuantity: number;
+  price?: number;         // execution price per unit (default 1)
+  fee?: number;           // flat fee charged to the account for this fill (default 0)
+  sequence?: number;      // position in the server's stream (assigned on broadcast), used to detect gaps and resume
+  timestamp?: number;     // epoch ms when the execution was published (stamped on broadcast when absent)
+}
+
+/**
+ * Server greeting sent when a WebSocket client connects.
+ */
+export interface HelloMessage {
+  type: "hello";
+  ok?: boolean;
+  streamId?: string;      // identifies the server's sequence space; a new id means sequences restarted (e.g. server restart)
+}
+
+/**
+ * Server acknowledgment (the mock engine echoes client messages as acks).
+ */
+export interface AckMessage {
+  type: "ack";
+  message?: string;
+}
+
+/**
+ * Application-level keepalive from the server.
+ */
+export interface HeartbeatMessage {
+  type: "heartbeat";
+  timestamp?: number;
+}
+
+/**
+ * Server confirmation of a subscribe/unsubscribe, carrying the client's
+ * full subscription after the change.
+ */
+export interface SubscriptionAck {
+  type: "subscription_ack";
+  orderIds: string[];
+  accountIds: string[];
+}
+
+/**
+ * Answer to a replay request reaching further back than the server's replay
+ * buffer: events before oldestSequence are gone and must be recovered
+ * another way (e.g. a REST snapshot).
+ */
+export interface ReplayUnavailable {
+  type: "replay_unavailable";
+  fromSequence: number;
+  oldestSequence: number;
+}
+
+/**
+ * Sent once a slow client's queue has drained after the server discarded
+ * events for it (see SlowConsumerPolicy): sequences fromSequence..toSequence
+ * may be missing and should be replayed. Covers subscribed clients and
+ * events before the client's first sequence, where gap detection can't.
+ */
+export interface EventsDropped {
+  type: "events_dropped";
+  fromSequence: number;
+  toSequence: number;
+}
+
+/**
+ * Every message a consumer accepts from the execution stream.
+ */
+export type InboundMessage =
+  | ExecutionEvent
+  | HelloMessage
+  | AckMessage
+  | HeartbeatMessage
+  | SubscriptionAck
+  | ReplayUnavailable
+  | EventsDropped;
+
+/**
+ * Client request to resend stream events from a sequence number onwards
+ * (sent after reconnecting so nothing is missed).
+ */
+export interface ReplayRequest {
+  type: "replay";
+  fromSequence: number;
+}
+
+/**
+ * Topics a client can follow: an event matches when its orderId or its
+ * accountId is listed.
+ */
+export interface SubscriptionTopics {
+  orderIds?: string[];
+  accountIds?: string[];
+}
+
+/**
+ * Add topics to the client's subscription. A client that never subscribed
+ * receives every event; once it subscribes, only matching ones.
+ */
+export interface SubscribeRequest extends SubscriptionTopics {
+  type: "subscribe";
+}
+
+/**
+ * Remove topics from the client's subscription.
+ */
+export interface UnsubscribeRequest extends SubscriptionTopics {
+  type: "unsubscribe";
+}
+
+/**
+ * Client confirmation that an execution event was processed by its engine
+ * (applied or rejected). Servers tracking acks redeliver unacked events.
+ */
+export interface ExecutionAck {
+  type: "ack";
+  eventId: string;
+  sequence?: number;
 }
+
+/**
+ * Every message a consumer sends to the server.
+ */
+export type OutboundMessage = ReplayRequest | SubscribeRequest | UnsubscribeRequest | ExecutionAck;
+
+/**
+ * Why an order is closed to further executions or lifecycle changes.
+ */
+export type TerminalStatusReason =
+  | "already_filled"
+  | "order_cancelled"
+  | "order_rejected"
+  | "order_expired";
+
+/**
+ * Every reason TradingEngine.applyExecution can refuse an event.
+ * Shared by the engine, the test-side ExecutionConsumer and the mock engine.
+ */
+export type RejectionReason =
+  | "unsupported_event"         // event type is not "execution"
+  | "duplicate_event"           // eventId already processed
+  | "unknown_order"             // no order registered with this orderId
+  | "unknown_account"           // the order's account is not registered
+  | "invalid_executed_quantity" // non-positive quantity
+  | "invalid_price"             // price present but not a positive finite number
+  | "invalid_fee"               // fee present but negative or not finite
+  | TerminalStatusReason
+  | "insufficient_balance"      // BUY fill costs more than the account balance
+  | "fee_exceeds_notional"      // SELL fill whose fee is larger than its proceeds
+  | "insufficient_position";    // SELL fill exceeds the held instrument position
+
+/**
+ * Outcome of applying an ExecutionEvent.
+ *
+ * Accepted: effectiveQuantity is what was filled (capped at the remaining
+ * quantity, reason "capped_overfill" when capping happened).
+ * Rejected: nothing changed; remainingQuantity/status describe the order
+ * when it is known.
+ */
+export type ApplyResult =
+  | {
+      applied: true;
+      reason?: "capped_overfill";
+      effectiveQuantity: number;
+      remainingQuantity: number;
+      status: OrderStatus;
+    }
+  | {
+      applied: false;
+      reason: RejectionReason;
+      effectiveQuantity: 0;
+      remainingQuantity?: number;
+      status?: OrderStatus;
+    };
+
+/**
+ * Reasons a lifecycle operation (cancel, expire, reject, amend) is refused.
+ */
+export type OrderActionRejectionReason =
+  | "unknown_order"
+  | TerminalStatusReason
+  | "invalid_transition"        // e.g. rejecting a partially filled order
+  | "invalid_amend_quantity";   // amend not strictly down, or below filled quantity
+
+export type OrderActionResult =
+  | { applied: true; status: OrderStatus }
+  | { applied: false; reason: OrderActionRejectionReason };
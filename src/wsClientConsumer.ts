@@ -1,70 +1,579 @@
+import { EventEmitter } from "node:events";
 import WebSocket from "ws";
-import type { ExecutionEvent } from "./types.js";
+import type { ExecutionEvent, OutboundMessage, SubscriptionTopics } from "./types.js";
 import type { TradingEngine } from "./engine.js";
+import type { ConsumerMetrics } from "./metrics.js";
+import type { DeadLetterQueue, DeadLetterRecord } from "./deadLetterQueue.js";
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitTransition } from "./circuitBreaker.js";
+import { validateInboundMessage, type ValidationIssue } from "./messageValidation.js";
+import { codecForProtocol, codecs, decodeMessage, jsonCodec, JSON_SUBPROTOCOL, type Codec, type CodecName } from "./codec.js";
+
+/**
+ * A message that failed decoding or schema validation.
+ */
+export interface InvalidMessage {
+  raw: string;            // frame text (base64 for binary frames)
+  issues: ValidationIssue[];
+  receivedAt: number;
+}
+
+/**
+ * Connection lifecycle:
+ *
+ *   connecting -> open -> reconnecting -> connecting -> ...
+ *        \____________________\______________________-> closed
+ *
+ * "closed" is terminal: close() was called, or reconnection gave up.
+ */
+export type ConnectionState = "connecting" | "open" | "reconnecting" | "closed";
+
+export interface StateChange {
+  from: ConnectionState;
+  to: ConnectionState;
+  attempt?: number;       // reconnecting: 1-based attempt about to be made
+  delayMs?: number;       // reconnecting: wait before that attempt
+  error?: Error;          // last socket error, if any
+}
+
+export interface ReconnectOptions {
+  initialDelayMs?: number;  // first retry delay (default 100)
+  maxDelayMs?: number;      // backoff ceiling (default 10_000)
+  multiplier?: number;      // growth per attempt (default 2)
+  jitter?: number;          // 0..1, fraction of the delay randomized away (default 0.2)
+  maxAttempts?: number;     // consecutive failures before giving up (default Infinity)
+}
+
+export interface ConsumerOptions {
+  /** Backoff settings, or false to never reconnect (default: reconnect) */
+  reconnect?: ReconnectOptions | false;
+  /** Last sequence already processed, e.g. persisted before a restart */
+  resumeFromSequence?: number;
+  /** Stream id resumeFromSequence belongs to (getStreamId()); a different one in the server's hello restarts from 1 */
+  resumeStreamId?: string;
+  /** Drop the connection (and reconnect) after this long without any frame or ping (default: disabled) */
+  idleTimeoutMs?: number;
+  /** Send {type:"ack", eventId, sequence} once the engine has processed an event (default true) */
+  ackExecutions?: boolean;
+  /** Wire encoding to negotiate (default "json"; "msgpack" needs server support, see codec.ts) */
+  codec?: CodecName;
+  /** Record message counts and apply latency (see createConsumerMetrics) */
+  metrics?: ConsumerMetrics;
+  /** Keep malformed, rejected and failed messages for inspection and re-drive (see deadLetterQueue.ts) */
+  deadLetters?: DeadLetterQueue;
+  /** Stop feeding the engine while it keeps throwing or rejecting (see ConsumerCircuitBreakerOptions) */
+  circuitBreaker?: ConsumerCircuitBreakerOptions;
+}
+
+export interface ConsumerCircuitBreakerOptions extends CircuitBreakerOptions {
+  /**
+   * While open: "buffer" holds incoming events in memory, starting with the
+   * one whose failure tripped it, and applies them once half-open;
+   * "disconnect" closes the socket and reconnects (with a replay) after the
+   * cooldown (default "buffer")
+   */
+  pause?: "buffer" | "disconnect";
+  /** Buffer limit; beyond it the buffer is dropped and the consumer disconnects instead (default 10_000) */
+  maxBufferedEvents?: number;
+}
+
+type DeadLetterSink = (record: Omit<DeadLetterRecord, "raw" | "encoding" | "receivedAt">) => void;
+
+/**
+ * Events emitted by a consumer (listen via `consumer.events.on(...)`).
+ * - state: connection state transitions
+ * - invalid_message: the message was dropped before reaching the engine
+ * - apply_error: engine.applyExecution threw for a valid event
+ * - gap: sequences were skipped (or the server reported dropping them for a
+ *   slow consumer); a replay from fromSequence was requested
+ * - replay_unavailable: the server no longer has events before oldestSequence
+ * - stream_reset: the server's hello announced a new streamId (its sequences
+ *   started over); lastSequence was dropped and a replay from 1 requested
+ * - circuit: the circuit breaker changed state
+ */
+export interface ConsumerEvents {
+  state: [StateChange];
+  invalid_message: [InvalidMessage];
+  apply_error: [{ event: ExecutionEvent; error: unknown }];
+  gap: [{ fromSequence: number; toSequence: number }];
+  replay_unavailable: [{ fromSequence: number; oldestSequence: number }];
+  stream_reset: [{ previousStreamId: string; streamId: string }];
+  circuit: [CircuitTransition];
+}
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  initialDelayMs: 100,
+  maxDelayMs: 10_000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: Infinity,
+};
+
+/**
+ * Delay before reconnect attempt number `attempt` (0-based): exponential
+ * growth capped at maxDelayMs, then reduced by up to `jitter` of itself so
+ * many clients dropped at once don't reconnect in lockstep.
+ */
+export function computeBackoff(
+  attempt: number,
+  options: Required<ReconnectOptions>,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * options.multiplier ** attempt);
+  return Math.round(base * (1 - options.jitter * random()));
+}
+
+function withoutSequence(evt: ExecutionEvent): ExecutionEvent {
+  const copy = { ...evt };
+  delete copy.sequence;
+  return copy;
+}
 
 /**
  * WebSocket client that connects to a server and consumes execution events.
- * 
+ *
  * Automatically feeds events into the TradingEngine, which handles:
+ * - Routing by orderId (one engine serves a multi-order stream)
  * - Idempotency (duplicate detection)
  * - State validation
  * - Overfill prevention
- * 
- * Production considerations to discuss in interview:
- * - Reconnection with exponential backoff
- * - Heartbeat/ping-pong for connection health
- * - Message acknowledgment to guarantee processing
- * - Dead letter queue for malformed messages
- * - Circuit breaker pattern for cascading failures
- * - Metrics (latency, message rate, error rate)
+ *
+ * Binary frames are decoded with the negotiated codec (JSON unless
+ * `codec: "msgpack"` was requested) and text frames always as JSON, so a
+ * server that accepted the subprotocol without speaking it still works.
+ * Every message is then validated at
+ * runtime (see messageValidation.ts) before it reaches the engine; invalid
+ * ones are reported on `events`.
+ *
+ * Dropped connections are retried with exponential backoff and jitter.
+ * The consumer remembers the last `sequence` it processed and, once
+ * reconnected, asks the server to replay from the next one; replayed
+ * duplicates are absorbed by the engine's idempotency. Sequences are only
+ * meaningful within one server stream: when the hello carries a streamId
+ * other than the one lastSequence belongs to (the server restarted and
+ * counts from 1 again), lastSequence is dropped and everything the new
+ * stream still buffers is replayed from sequence 1.
+ *
+ * Acknowledgments: after engine.applyExecution returns (applied or
+ * rejected, e.g. a duplicate) the consumer acks the event so the server can
+ * stop redelivering it. An event whose apply threw is not acked, so it will
+ * be redelivered.
+ *
+ * Gap detection: an event whose sequence skips past lastSequence + 1 is
+ * still applied, and a replay of the missing range is requested (replayed
+ * events may therefore arrive out of order; fills are idempotent). While
+ * subscribed, skipped sequences normally belong to other topics, so gap
+ * detection is off; the replay-on-reconnect and the server's events_dropped
+ * notices (for events it discarded on a slow connection) cover those.
+ *
+ * subscribe()/unsubscribe() narrow the stream to given orders or accounts;
+ * the consumer remembers its topics and subscribes again after reconnecting
+ * (before asking for a replay).
+ *
+ * With idleTimeoutMs set, a connection that goes quiet (no message and no
+ * server ping) is treated as dead: the socket is terminated and the normal
+ * reconnect path takes over. Pick a value above the server's ping interval.
+ *
+ * With `metrics`, every frame and apply outcome is counted (rejections by
+ * reason) and event-to-apply latency is observed for events carrying a
+ * timestamp; serve the registry on /metrics (see src/server.ts).
+ *
+ * With `deadLetters`, malformed frames, rejected events (except
+ * duplicate_event) and events whose apply threw are recorded with the raw
+ * frame and receive time. A dead-lettered apply failure counts as handled:
+ * it is acked and not redelivered, and redriveDeadLetters() retries it once
+ * fixed.
+ *
+ * With `circuitBreaker`, engine outcomes feed a CircuitBreaker: throws and a
+ * high rejection rate (duplicates excluded) open it, and consumption pauses
+ * instead of pushing a bad stream into a possibly corrupted engine. After
+ * the cooldown a few trial events go through (half-open); if they succeed
+ * the breaker closes and the consumer catches up. Transitions are emitted
+ * as `circuit` events.
  */
-export function connectAndConsume(url: string, engine: TradingEngine) {
-  const ws = new WebSocket(url);
+export function connectAndConsume(url: string, engine: TradingEngine, options: ConsumerOptions = {}) {
+  const events = new EventEmitter<ConsumerEvents>();
+  const reconnect = options.reconnect === false ? undefined : { ...DEFAULT_RECONNECT, ...options.reconnect };
+
+  let ws: WebSocket;
+  let state: ConnectionState = "connecting";
+  let failedAttempts = 0;
+  let lastError: Error | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastSequence = options.resumeFromSequence;
+  let streamId = options.resumeStreamId; // stream lastSequence belongs to, from the server's hello
+  let unprocessedFrom: number | undefined; // before anything is processed: oldest sequence left unprocessed
+  let codec: Codec = jsonCodec; // what the server agreed to, set on open
+  let replayRequestedFrom: number | undefined; // per connection, so a failing event can't trigger a replay loop
+  let topics: { orderIds: Set<string>; accountIds: Set<string> } | undefined;
+
+  const breaker = options.circuitBreaker && new CircuitBreaker(options.circuitBreaker);
+  const pauseMode = options.circuitBreaker?.pause ?? "buffer";
+  const maxBufferedEvents = options.circuitBreaker?.maxBufferedEvents ?? 10_000;
+  let buffered: Array<{ evt: ExecutionEvent; deadLetter: DeadLetterSink }> = [];
+  let pausedByDisconnect = false;
+  let resumeTimer: ReturnType<typeof setTimeout> | undefined;
+  breaker?.events.on("transition", (transition) => {
+    events.emit("circuit", transition);
+    if (transition.to === "open") pause();
+  });
+
+  function setState(to: ConnectionState, details: Omit<StateChange, "from" | "to"> = {}) {
+    const from = state;
+    state = to;
+    events.emit("state", { from, to, ...details });
+  }
+
+  function send(message: OutboundMessage) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(codec.encode(message));
+  }
+
+  function requestReplay(fromSequence: number) {
+    replayRequestedFrom = fromSequence;
+    send({ type: "replay", fromSequence });
+  }
+
+  /**
+   * Restart the idle countdown; called on open and on every inbound frame.
+   */
+  function resetIdleTimer() {
+    if (!options.idleTimeoutMs) return;
+    if (idleTimer) clearTimeout(idleTimer);
+    const socket = ws;
+    idleTimer = setTimeout(() => {
+      idleTimer = undefined;
+      lastError = new Error(`No message or ping received for ${options.idleTimeoutMs}ms`);
+      socket.terminate();
+    }, options.idleTimeoutMs);
+  }
+
+  function clearIdleTimer() {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = undefined;
+  }
+
+  /**
+   * Open a socket and wire its handlers. Called again on every reconnect.
+   */
+  function connect() {
+    lastError = undefined;
+    const requested = codecs[options.codec ?? "json"];
+    // JSON is offered as a fallback so JSON-only servers can still accept
+    ws = requested === jsonCodec ? new WebSocket(url) : new WebSocket(url, [requested.subprotocol, JSON_SUBPROTOCOL]);
+
+    ws.on("open", () => {
+      codec = codecForProtocol(ws.protocol);
+      failedAttempts = 0;
+      resetIdleTimer();
+      setState("open");
+      if (topics) {
+        send({ type: "subscribe", orderIds: [...topics.orderIds], accountIds: [...topics.accountIds] });
+      }
+      replayRequestedFrom = undefined;
+      const resumeFrom = lastSequence !== undefined ? lastSequence + 1 : unprocessedFrom;
+      if (resumeFrom !== undefined) requestReplay(resumeFrom);
+    });
+
+    ws.on("message", (data, isBinary) => {
+      resetIdleTimer();
+      handleMessage(data as Buffer, isBinary);
+    });
+
+    // ws answers pings automatically; they also prove the link is alive
+    ws.on("ping", () => resetIdleTimer());
+
+    // 'close' always follows 'error'; remember the cause for the state event
+    ws.on("error", (e) => {
+      lastError = e;
+    });
+
+    ws.on("close", () => {
+      clearIdleTimer();
+      if (state === "closed") return;
+      if (pausedByDisconnect) reconnectAfterCooldown();
+      else scheduleReconnect();
+    });
+  }
+
+  function scheduleReconnect() {
+    const error = lastError;
+    if (!reconnect || failedAttempts >= reconnect.maxAttempts) {
+      setState("closed", error ? { error } : {});
+      return;
+    }
+
+    const delayMs = computeBackoff(failedAttempts, reconnect);
+    failedAttempts++;
+    setState("reconnecting", { attempt: failedAttempts, delayMs, ...(error && { error }) });
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      setState("connecting");
+      connect();
+    }, delayMs);
+  }
+
+  /**
+   * Breaker-initiated disconnect: not a failure, so it neither counts
+   * against maxAttempts nor depends on reconnect being enabled.
+   */
+  function reconnectAfterCooldown() {
+    const delayMs = breaker?.remainingCooldownMs() ?? 0;
+    setState("reconnecting", { delayMs });
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      pausedByDisconnect = false;
+      setState("connecting");
+      connect();
+    }, delayMs);
+  }
+
+  /**
+   * Handle an incoming message from the WebSocket.
+   * Validate, then apply execution events to the engine.
+   */
+  function handleMessage(data: Buffer, isBinary: boolean) {
+    const metrics = options.metrics;
+    metrics?.received.inc();
+
+    const receivedAt = Date.now();
+    const raw = () => data.toString(isBinary ? "base64" : "utf8");
+    const frameCodec = isBinary ? codec : jsonCodec;
+    const deadLetter: DeadLetterSink = (record) =>
+      options.deadLetters?.add({ ...record, raw: raw(), encoding: frameCodec.name, receivedAt });
+
+    const parsed = decodeMessage(frameCodec, data, validateInboundMessage);
+    if (!parsed.ok) {
+      metrics?.malformed.inc();
+      events.emit("invalid_message", { raw: raw(), issues: parsed.issues, receivedAt });
+      deadLetter({ kind: "malformed", issues: parsed.issues });
+      return;
+    }
+
+    const evt = parsed.value;
+    if (evt.type === "hello") {
+      if (evt.streamId !== undefined) switchStream(evt.streamId);
+      return;
+    }
+    if (evt.type === "replay_unavailable") {
+      events.emit("replay_unavailable", { fromSequence: evt.fromSequence, oldestSequence: evt.oldestSequence });
+      return;
+    }
+    if (evt.type === "events_dropped") {
+      // Replay filters by subscription, so this also covers topic consumers
+      events.emit("gap", { fromSequence: evt.fromSequence, toSequence: evt.toSequence });
+      requestReplay(evt.fromSequence);
+      return;
+    }
+    if (evt.type !== "execution") return; // ack/heartbeat/subscription_ack need no action
+
+    if (!breaker) {
+      applyEvent(evt, deadLetter);
+    } else if (pausedByDisconnect) {
+      markUnprocessed(evt); // in flight before the close; replayed after the cooldown
+    } else if (buffered.length > 0 || !breaker.canExecute()) {
+      if (buffered.length >= maxBufferedEvents) {
+        if (buffered[0]) markUnprocessed(buffered[0].evt);
+        buffered = [];
+        disconnectUntilCooldown();
+        return;
+      }
+      buffered.push({ evt, deadLetter });
+    } else {
+      applyEvent(evt, deadLetter);
+    }
+  }
 
   /**
-   * Handle incoming messages from the WebSocket.
-   * Parse JSON and apply execution events to the engine.
+   * Apply one execution event: gap check, engine, dead letters, metrics,
+   * breaker outcome, then ack and advance lastSequence.
    */
-  ws.on("message", (data) => {
+  function applyEvent(evt: ExecutionEvent, deadLetter: DeadLetterSink) {
+    const metrics = options.metrics;
+
+    if (!topics && evt.sequence !== undefined && lastSequence !== undefined && evt.sequence > lastSequence + 1) {
+      const gap = { fromSequence: lastSequence + 1, toSequence: evt.sequence - 1 };
+      events.emit("gap", gap);
+      if (replayRequestedFrom !== gap.fromSequence) requestReplay(gap.fromSequence);
+    }
+
     try {
-      const evt = JSON.parse(data.toString()) as ExecutionEvent;
-      if (evt.type === "execution") {
-        const result = engine.applyExecution(evt);
-        
-        // In production, you'd log/monitor rejection reasons
-        if (!result.applied && result.reason) {
-          // console.warn(`Event ${evt.eventId} rejected: ${result.reason}`);
-        }
+      const result = engine.applyExecution(evt);
+
+      if (result.applied) metrics?.applied.inc();
+      else metrics?.rejected.inc({ reason: result.reason });
+      if (!result.applied && result.reason !== "duplicate_event") {
+        deadLetter({ kind: "rejected", event: evt, reason: result.reason });
+      }
+      if (metrics && evt.timestamp !== undefined) {
+        // Clamp: producer clocks may run slightly ahead of ours
+        metrics.latency.observe(Math.max(0, Date.now() - evt.timestamp) / 1000);
       }
-    } catch {
-      // In production: log to monitoring system, increment error metric
-      // For this demo, silently ignore malformed messages
+      breaker?.record(result.applied || result.reason === "duplicate_event" ? "success" : "rejection");
+    } catch (error) {
+      metrics?.applyErrors.inc();
+      events.emit("apply_error", { event: evt, error });
+      breaker?.record("error");
+      if (!options.deadLetters) {
+        // Tripped the breaker: hold it for the first half-open trial, since
+        // once lastSequence is set a reconnect replay wouldn't cover it
+        if (breaker?.getState() === "open" && pauseMode === "buffer") buffered.unshift({ evt, deadLetter });
+        else markUnprocessed(evt);
+        return;
+      }
+      deadLetter({ kind: "apply_error", event: evt, error: error instanceof Error ? error.message : String(error) });
     }
-  });
+
+    if (options.ackExecutions !== false) {
+      send({ type: "ack", eventId: evt.eventId, ...(evt.sequence !== undefined && { sequence: evt.sequence }) });
+    }
+
+    if (evt.sequence !== undefined && (lastSequence === undefined || evt.sequence > lastSequence)) {
+      lastSequence = evt.sequence;
+    }
+  }
+
+  /**
+   * The server announced its stream. A different stream than the one our
+   * sequences came from restarted its numbering, so lastSequence (and any
+   * buffered event's sequence) no longer relates to it: forget them and
+   * replay the new stream from the start.
+   */
+  function switchStream(next: string) {
+    const previousStreamId = streamId;
+    streamId = next;
+    if (previousStreamId === undefined || previousStreamId === next) return;
+    if (lastSequence === undefined && unprocessedFrom === undefined) return;
+
+    lastSequence = undefined;
+    unprocessedFrom = undefined;
+    buffered = buffered.map(({ evt, deadLetter }) => ({ evt: withoutSequence(evt), deadLetter }));
+    events.emit("stream_reset", { previousStreamId, streamId: next });
+    requestReplay(1);
+  }
+
+  /**
+   * Remember where to replay from while lastSequence is still unknown
+   * (afterwards, lastSequence + 1 covers it).
+   */
+  function markUnprocessed(evt: ExecutionEvent) {
+    if (lastSequence !== undefined || evt.sequence === undefined) return;
+    unprocessedFrom = Math.min(unprocessedFrom ?? Infinity, evt.sequence);
+  }
+
+  /**
+   * The breaker opened: hold incoming events (buffer) or drop the
+   * connection (disconnect) until it lets trial events through.
+   */
+  function pause() {
+    if (pauseMode === "disconnect") {
+      disconnectUntilCooldown();
+      return;
+    }
+    if (resumeTimer) clearTimeout(resumeTimer);
+    resumeTimer = setTimeout(drainBuffered, breaker?.remainingCooldownMs() ?? 0);
+  }
+
+  /**
+   * Apply buffered events in order for as long as the breaker allows;
+   * a trial failure re-opens it and pause() schedules the next attempt.
+   */
+  function drainBuffered() {
+    resumeTimer = undefined;
+    while (buffered.length > 0 && breaker?.canExecute()) {
+      const next = buffered.shift();
+      if (next) applyEvent(next.evt, next.deadLetter);
+    }
+    // Timers may fire a little before the clock says the cooldown is over
+    if (buffered.length > 0 && breaker?.getState() === "open" && !resumeTimer) pause();
+  }
 
   /**
-   * Wait for the WebSocket connection to open.
-   * Throws if connection fails.
+   * Close the socket and reconnect once the cooldown has elapsed. Nothing
+   * after lastSequence was acked, so the replay on reconnect resends it.
+   */
+  function disconnectUntilCooldown() {
+    if (pausedByDisconnect) return;
+    pausedByDisconnect = true;
+    ws.close(1013, "circuit open"); // 1013: try again later
+  }
+
+  /**
+   * Only receive events for these orders/accounts (added to earlier topics).
+   * Sent immediately when open, and again after every reconnect.
+   */
+  function subscribe(add: SubscriptionTopics) {
+    topics ??= { orderIds: new Set(), accountIds: new Set() };
+    add.orderIds?.forEach((id) => topics?.orderIds.add(id));
+    add.accountIds?.forEach((id) => topics?.accountIds.add(id));
+    send({ type: "subscribe", ...add });
+  }
+
+  /**
+   * Stop receiving events for these orders/accounts.
+   */
+  function unsubscribe(remove: SubscriptionTopics) {
+    topics ??= { orderIds: new Set(), accountIds: new Set() };
+    remove.orderIds?.forEach((id) => topics?.orderIds.delete(id));
+    remove.accountIds?.forEach((id) => topics?.accountIds.delete(id));
+    send({ type: "unsubscribe", ...remove });
+  }
+
+  /**
+   * Wait for the connection to be open.
+   * Rejects if the consumer closes first (reconnection disabled or exhausted).
    */
   function waitOpen() {
     return new Promise<void>((resolve, reject) => {
-      ws.once("open", () => resolve());
-      ws.once("error", (e) => reject(e));
+      if (state === "open") return resolve();
+      if (state === "closed") return reject(lastError ?? new Error("Consumer is closed"));
+
+      const onState = (change: StateChange) => {
+        if (change.to === "open") {
+          events.off("state", onState);
+          resolve();
+        } else if (change.to === "closed") {
+          events.off("state", onState);
+          reject(change.error ?? new Error("Consumer is closed"));
+        }
+      };
+      events.on("state", onState);
     });
   }
 
   /**
-   * Gracefully close the WebSocket connection.
+   * Gracefully close the WebSocket connection and stop reconnecting.
    */
   function close() {
     return new Promise<void>((resolve) => {
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = undefined;
+      if (resumeTimer) clearTimeout(resumeTimer);
+      resumeTimer = undefined;
+      clearIdleTimer();
+      if (state !== "closed") setState("closed");
+
+      if (ws.readyState === WebSocket.CLOSED) return resolve();
       ws.once("close", () => resolve());
       ws.close();
     });
   }
 
+  connect();
+
   return {
-    ws,
+    /** Current socket; replaced on every reconnect */
+    get ws() {
+      return ws;
+    },
+    events,
+    getState: () => state,
+    /** undefined without circuitBreaker */
+    getCircuitState: () => breaker?.getState(),
+    getLastSequence: () => lastSequence,
+    /** Server stream lastSequence belongs to; persist it with lastSequence (resumeStreamId) */
+    getStreamId: () => streamId,
+    subscribe,
+    unsubscribe,
     waitOpen,
     close,
   };
@@ -1,31 +1,351 @@
+import { randomUUID } from "node:crypto";
 import { WebSocketServer, WebSocket } from "ws";
-import type { ExecutionEvent } from "./types.js";
+import type { EventsDropped, ExecutionEvent, HelloMessage, ReplayUnavailable, SubscriptionAck, SubscriptionTopics } from "./types.js";
+import { validateOutboundMessage } from "./messageValidation.js";
+import { codecForProtocol, decodeMessage, selectSubprotocol, type Codec } from "./codec.js";
+
+export interface WsServerOptions {
+  /** Ping every client this often; clients that miss a pong are terminated (default 30s, 0 disables) */
+  heartbeatIntervalMs?: number;
+  /** Most recent broadcast events kept to answer replay requests (default 1000) */
+  replayBufferSize?: number;
+  backpressure?: BackpressureOptions;
+  /** Redeliver events a client hasn't acked after this long (default 0: acks not tracked) */
+  ackTimeoutMs?: number;
+  /** Redeliveries per event before giving up on it (default 5; replay can still recover it) */
+  maxRedeliveries?: number;
+  /** Announced in every client's hello; sequences are only comparable within one stream id (default: random per server) */
+  streamId?: string;
+}
+
+/**
+ * What to do when a slow client's outbound queue is full:
+ * - drop_oldest: discard the oldest queued message
+ * - disconnect: terminate the client (it can reconnect and replay)
+ * - coalesce: discard a queued copy of the same event (a replay or
+ *   redelivery still waiting to be sent), otherwise the oldest message.
+ *   Fills are additive, so distinct events for one order are never merged.
+ *
+ * Dropped events are not silent: once the client's queue has drained it
+ * gets an events_dropped notice with the discarded sequence range and is
+ * expected to replay it. Gap detection alone can't be relied on, since
+ * subscribed consumers see gaps all the time and nobody sees one before
+ * their first sequence.
+ */
+export type SlowConsumerPolicy = "drop_oldest" | "disconnect" | "coalesce";
+
+export interface BackpressureOptions {
+  highWaterMarkBytes?: number;   // stop writing to a client once its socket buffers this much (default 1 MiB)
+  maxQueuedMessages?: number;    // per-client queue bound before the policy applies (default 1000)
+  policy?: SlowConsumerPolicy;   // default "drop_oldest"
+}
+
+/**
+ * Connection health counts, e.g. for a /health endpoint.
+ * - live: open client connections (half-open ones are evicted by the heartbeat)
+ * - dead: clients terminated so far for missing a pong
+ * - droppedMessages: messages discarded from full slow-client queues
+ * - slowConsumerDisconnects: clients terminated by the "disconnect" policy
+ * - unackedEvents: events awaiting an ack, over all clients (ack tracking only)
+ * - redeliveries: events resent after an ack timeout
+ */
+export interface WsServerStats {
+  live: number;
+  dead: number;
+  droppedMessages: number;
+  slowConsumerDisconnects: number;
+  unackedEvents: number;
+  redeliveries: number;
+}
+
+interface PendingAck {
+  event: ExecutionEvent;
+  sentAt: number;
+  redeliveries: number;
+}
+
+interface QueuedMessage {
+  payload: string | Uint8Array;
+  eventId?: string;       // set for execution events, used by "coalesce"
+  sequence?: number;      // reported in events_dropped when discarded
+}
+
+interface Subscription {
+  orderIds: Set<string>;
+  accountIds: Set<string>;
+}
+
+function matches(subscription: Subscription, event: ExecutionEvent): boolean {
+  return subscription.orderIds.has(event.orderId)
+    || (event.accountId !== undefined && subscription.accountIds.has(event.accountId));
+}
 
 /**
  * Minimal WebSocket server for broadcasting execution events.
- * 
+ *
+ * Subscriptions: a client sends {type:"subscribe"|"unsubscribe", orderIds?,
+ * accountIds?} and gets a subscription_ack with its full subscription.
+ * Clients that never subscribed receive every event (firehose); once a
+ * client has subscribed it only receives matching events, even if it later
+ * unsubscribes from everything. Malformed client messages are ignored.
+ *
+ * Sequencing: broadcast stamps every event with the next stream sequence
+ * (1, 2, 3, ...) and keeps the last replayBufferSize events. A client
+ * sending {type:"replay", fromSequence} gets the buffered events from there
+ * on that match its subscription, preceded by replay_unavailable when part
+ * of the range has already been evicted. Counter and buffer live in memory,
+ * so every client first gets a hello carrying the streamId: a new id tells a
+ * reconnecting consumer that sequences started over.
+ *
+ * Backpressure: messages to a client go through a per-client queue that is
+ * only written while the socket's bufferedAmount is below the high-water
+ * mark; each completed write drains it further. A full queue is handled by
+ * the configured SlowConsumerPolicy; the client is told which sequences it
+ * lost (events_dropped) once it has caught up.
+ *
+ * Acknowledgments (opt-in via ackTimeoutMs): every event sent to a client
+ * stays pending until the client answers {type:"ack", eventId}; pending
+ * events older than ackTimeoutMs are sent again, up to maxRedeliveries
+ * times. Consumers absorb the duplicates through idempotency.
+ *
+ * Encoding: JSON by default; clients offering the MessagePack subprotocol
+ * (see codec.ts) get binary frames, and their own messages are decoded
+ * with the same codec.
+ *
+ * Heartbeat: every interval each client is pinged; a client that has not
+ * answered the previous ping by then is considered half-open and is
+ * terminated, so it doesn't linger in wss.clients.
+ *
  * In production, this would be more sophisticated:
  * - Authentication/authorization
- * - Per-client subscriptions (not broadcast to all)
- * - Backpressure handling
- * - Reconnection logic
- * - Message acknowledgments
  * - Metrics/monitoring
  */
-export function startWsServer(port = 0) {
-  const wss = new WebSocketServer({ port });
+export function startWsServer(port = 0, options: WsServerOptions = {}) {
+  const wss = new WebSocketServer({ port, handleProtocols: selectSubprotocol });
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30_000;
+  const alive = new WeakMap<WebSocket, boolean>();
+  const subscriptions = new WeakMap<WebSocket, Subscription>();
+  const replayBufferSize = options.replayBufferSize ?? 1000;
+  const replayBuffer: ExecutionEvent[] = []; // oldest first, sequences contiguous
+  const highWaterMarkBytes = options.backpressure?.highWaterMarkBytes ?? 1024 * 1024;
+  const maxQueuedMessages = options.backpressure?.maxQueuedMessages ?? 1000;
+  const policy = options.backpressure?.policy ?? "drop_oldest";
+  const queues = new WeakMap<WebSocket, QueuedMessage[]>();
+  const droppedRanges = new WeakMap<WebSocket, EventsDropped>(); // not yet reported to the client
+  const ackTimeoutMs = options.ackTimeoutMs ?? 0;
+  const maxRedeliveries = options.maxRedeliveries ?? 5;
+  const pendingAcks = new WeakMap<WebSocket, Map<string, PendingAck>>();
+  let lastSequence = 0;
+  let redeliveries = 0;
+  let deadCount = 0;
+  let droppedMessages = 0;
+  let slowConsumerDisconnects = 0;
+  const streamId = options.streamId ?? randomUUID();
+
+  wss.on("connection", (ws) => {
+    alive.set(ws, true);
+    ws.on("pong", () => alive.set(ws, true));
+    ws.on("message", (data) => handleClientMessage(ws, data as Buffer));
+    const hello: HelloMessage = { type: "hello", ok: true, streamId };
+    deliver(ws, { payload: codecOf(ws).encode(hello) });
+  });
 
   /**
-   * Broadcast an event to all connected clients.
-   * Uses JSON serialization (in production, consider Protocol Buffers/MessagePack)
+   * Queue a message for a client, applying the slow-consumer policy when
+   * the queue is full, then write as much as the socket accepts.
    */
-  function broadcast(event: ExecutionEvent) {
-    const payload = JSON.stringify(event);
+  function deliver(ws: WebSocket, message: QueuedMessage) {
+    let queue = queues.get(ws);
+    if (!queue) {
+      queue = [];
+      queues.set(ws, queue);
+    }
+
+    flush(ws); // the socket may have drained since the last write
+    if (queue.length >= maxQueuedMessages) {
+      if (policy === "disconnect") {
+        slowConsumerDisconnects++;
+        queues.delete(ws);
+        ws.terminate();
+        return;
+      }
+      const sameEvent = policy === "coalesce" && message.eventId !== undefined
+        ? queue.findIndex((queued) => queued.eventId === message.eventId)
+        : -1;
+      const [discarded] = queue.splice(Math.max(sameEvent, 0), 1);
+      droppedMessages++;
+      if (discarded?.sequence !== undefined && sameEvent < 0) recordDropped(ws, discarded.sequence);
+    }
+
+    queue.push(message);
+    flush(ws);
+  }
+
+  function flush(ws: WebSocket) {
+    const queue = queues.get(ws);
+    while (queue?.length && ws.readyState === WebSocket.OPEN && ws.bufferedAmount < highWaterMarkBytes) {
+      const message = queue.shift() as QueuedMessage;
+      ws.send(message.payload, () => flush(ws));
+    }
+
+    // Report drops only once caught up, so the notice itself can't be dropped
+    const dropped = droppedRanges.get(ws);
+    if (dropped && queue?.length === 0 && ws.readyState === WebSocket.OPEN) {
+      droppedRanges.delete(ws);
+      ws.send(codecOf(ws).encode(dropped));
+    }
+  }
+
+  function recordDropped(ws: WebSocket, sequence: number) {
+    const dropped = droppedRanges.get(ws);
+    if (!dropped) {
+      droppedRanges.set(ws, { type: "events_dropped", fromSequence: sequence, toSequence: sequence });
+      return;
+    }
+    dropped.fromSequence = Math.min(dropped.fromSequence, sequence);
+    dropped.toSequence = Math.max(dropped.toSequence, sequence);
+  }
+
+  function codecOf(ws: WebSocket): Codec {
+    return codecForProtocol(ws.protocol);
+  }
+
+  function sendEvent(ws: WebSocket, event: ExecutionEvent, payload = codecOf(ws).encode(event)) {
+    if (ackTimeoutMs > 0) trackAck(ws, event);
+    deliver(ws, queuedEvent(event, payload));
+  }
+
+  function queuedEvent(event: ExecutionEvent, payload: string | Uint8Array): QueuedMessage {
+    return { payload, eventId: event.eventId, ...(event.sequence !== undefined && { sequence: event.sequence }) };
+  }
+
+  function trackAck(ws: WebSocket, event: ExecutionEvent) {
+    let pending = pendingAcks.get(ws);
+    if (!pending) {
+      pending = new Map();
+      pendingAcks.set(ws, pending);
+    }
+    const existing = pending.get(event.eventId);
+    pending.set(event.eventId, { event, sentAt: Date.now(), redeliveries: existing?.redeliveries ?? 0 });
+  }
+
+  /**
+   * Resend events whose ack is overdue; forget them after maxRedeliveries.
+   */
+  function redeliverUnacked() {
+    const now = Date.now();
+    for (const client of wss.clients) {
+      const pending = pendingAcks.get(client);
+      if (!pending || client.readyState !== WebSocket.OPEN) continue;
+
+      for (const [eventId, entry] of pending) {
+        if (now - entry.sentAt < ackTimeoutMs) continue;
+        if (entry.redeliveries >= maxRedeliveries) {
+          pending.delete(eventId);
+          continue;
+        }
+        entry.redeliveries++;
+        entry.sentAt = now;
+        redeliveries++;
+        deliver(client, queuedEvent(entry.event, codecOf(client).encode(entry.event)));
+      }
+    }
+  }
+
+  function handleClientMessage(ws: WebSocket, data: Buffer) {
+    const parsed = decodeMessage(codecOf(ws), data, validateOutboundMessage);
+    if (!parsed.ok) return;
+
+    const msg = parsed.value;
+    if (msg.type === "subscribe" || msg.type === "unsubscribe") {
+      updateSubscription(ws, msg.type, msg);
+    } else if (msg.type === "ack") {
+      pendingAcks.get(ws)?.delete(msg.eventId);
+    } else {
+      replay(ws, msg.fromSequence);
+    }
+  }
+
+  function replay(ws: WebSocket, fromSequence: number) {
+    const oldestSequence = replayBuffer[0]?.sequence ?? lastSequence + 1;
+    if (fromSequence < oldestSequence) {
+      const unavailable: ReplayUnavailable = { type: "replay_unavailable", fromSequence, oldestSequence };
+      deliver(ws, { payload: codecOf(ws).encode(unavailable) });
+    }
+
+    const subscription = subscriptions.get(ws);
+    const start = Math.max(0, fromSequence - oldestSequence);
+    for (const event of replayBuffer.slice(start)) {
+      if (!subscription || matches(subscription, event)) sendEvent(ws, event);
+    }
+  }
+
+  function updateSubscription(ws: WebSocket, action: "subscribe" | "unsubscribe", topics: SubscriptionTopics) {
+    let subscription = subscriptions.get(ws);
+    if (!subscription) {
+      subscription = { orderIds: new Set(), accountIds: new Set() };
+      subscriptions.set(ws, subscription);
+    }
+
+    for (const id of topics.orderIds ?? []) {
+      if (action === "subscribe") subscription.orderIds.add(id);
+      else subscription.orderIds.delete(id);
+    }
+    for (const id of topics.accountIds ?? []) {
+      if (action === "subscribe") subscription.accountIds.add(id);
+      else subscription.accountIds.delete(id);
+    }
+
+    const ack: SubscriptionAck = {
+      type: "subscription_ack",
+      orderIds: [...subscription.orderIds],
+      accountIds: [...subscription.accountIds],
+    };
+    deliver(ws, { payload: codecOf(ws).encode(ack) });
+  }
+
+  const heartbeat = heartbeatIntervalMs > 0
+    ? setInterval(() => {
+        for (const client of wss.clients) {
+          if (alive.get(client) === false) {
+            deadCount++;
+            client.terminate();
+            continue;
+          }
+          alive.set(client, false);
+          client.ping();
+        }
+      }, heartbeatIntervalMs)
+    : undefined;
+
+  const ackSweep = ackTimeoutMs > 0 ? setInterval(redeliverUnacked, Math.max(1, ackTimeoutMs / 2)) : undefined;
+
+  /**
+   * Assign the next sequence, buffer the event for replay and send it to
+   * every connected client whose subscription matches (or that never
+   * subscribed). Any sequence already on the event is replaced; a missing
+   * timestamp is set to now.
+   * The event is encoded once per codec in use, not once per client.
+   */
+  function broadcast(input: ExecutionEvent): ExecutionEvent {
+    const event: ExecutionEvent = { ...input, sequence: ++lastSequence, timestamp: input.timestamp ?? Date.now() };
+    replayBuffer.push(event);
+    if (replayBuffer.length > replayBufferSize) replayBuffer.shift();
+
+    const payloads = new Map<Codec, string | Uint8Array>();
     for (const client of wss.clients) {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(payload);
+      const subscription = subscriptions.get(client);
+      if (client.readyState === WebSocket.OPEN && (!subscription || matches(subscription, event))) {
+        const codec = codecOf(client);
+        let payload = payloads.get(codec);
+        if (payload === undefined) {
+          payload = codec.encode(event);
+          payloads.set(codec, payload);
+        }
+        sendEvent(client, event, payload);
       }
     }
+    return event;
   }
 
   /**
@@ -38,10 +358,22 @@ export function startWsServer(port = 0) {
     throw new Error("Cannot get server port");
   }
 
+  function getStats(): WsServerStats {
+    let live = 0;
+    let unackedEvents = 0;
+    for (const client of wss.clients) {
+      if (client.readyState === WebSocket.OPEN) live++;
+      unackedEvents += pendingAcks.get(client)?.size ?? 0;
+    }
+    return { live, dead: deadCount, droppedMessages, slowConsumerDisconnects, unackedEvents, redeliveries };
+  }
+
   /**
    * Gracefully close the server.
    */
   function close() {
+    if (heartbeat) clearInterval(heartbeat);
+    if (ackSweep) clearInterval(ackSweep);
     return new Promise<void>((resolve, reject) => {
       wss.close((err) => (err ? reject(err) : resolve()));
     });
@@ -50,6 +382,9 @@ export function startWsServer(port = 0) {
   return {
     wss,
     getPort,
+    getStats,
+    getLastSequence: () => lastSequence,
+    getStreamId: () => streamId,
     broadcast,
     close,
   };
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer } from "../src/server.js";
+import { TradingEngine } from "../src/engine.js";
+import type { ExecutionEvent } from "../src/types.js";
+
+/**
+ * REST API over the TypeScript engine (same shapes as the mock engine).
+ */
+describe("API - orders, accounts and executions", () => {
+  let server: ReturnType<typeof createServer>;
+  let engine: TradingEngine;
+  let broadcast: ExecutionEvent[];
+  let baseUrl = "";
+
+  beforeEach(async () => {
+    engine = new TradingEngine();
+    engine.createAccount("default", 1000);
+    broadcast = [];
+    server = createServer({ engine, onExecution: (evt) => broadcast.push(evt) });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const addr = server.address();
+    if (addr && typeof addr === "object") baseUrl = `http://127.0.0.1:${addr.port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  async function post(path: string, body?: unknown) {
+    const r = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      ...(body !== undefined && { body: typeof body === "string" ? body : JSON.stringify(body) }),
+    });
+    return { status: r.status, body: await r.json() };
+  }
+
+  async function get(path: string) {
+    const r = await fetch(`${baseUrl}${path}`);
+    return { status: r.status, body: await r.json() };
+  }
+
+  it("creates, lists and gets orders", async () => {
+    const created = await post("/orders", { quantity: 10 });
+    expect(created.status).toBe(201);
+    expect(created.body).toEqual({ orderId: expect.stringMatching(/^ORD-/), quantity: 10, status: "OPEN" });
+
+    await post("/orders", { id: "O2", quantity: 5, accountId: "ACC-2", side: "SELL" });
+    expect((await post("/orders", { id: "O2", quantity: 5 })).body).toEqual({ error: "order_exists" });
+
+    expect((await get("/orders")).body.orders).toHaveLength(2);
+    expect((await get("/orders?accountId=ACC-2")).body.orders.map((o: { id: string }) => o.id)).toEqual(["O2"]);
+    expect((await get("/orders/O2")).body.order).toMatchObject({ id: "O2", side: "SELL", filledQuantity: 0 });
+    expect(await get("/orders/nope")).toEqual({ status: 404, body: { error: "unknown_order" } });
+  });
+
+  it("rejects invalid order requests", async () => {
+    const r = await post("/orders", { quantity: -1, side: "HOLD" });
+    expect(r.status).toBe(400);
+    expect(r.body).toEqual({
+      error: "invalid_request",
+      issues: [
+        { path: "$.quantity", message: "expected positive number" },
+        { path: "$.side", message: 'expected "BUY" or "SELL"' },
+      ],
+    });
+    expect((await post("/orders", "{oops")).body).toMatchObject({ error: "invalid_json" });
+  });
+
+  it("applies executions and reports rejections with engine reasons", async () => {
+    engine.createOrder({ id: "O1", quantity: 10 });
+
+    const first = await post("/execute", { orderId: "O1", quantity: 4, eventId: "E1", price: 10 });
+    expect(first).toEqual({
+      status: 200,
+      body: { applied: true, effectiveQuantity: 4, remainingQuantity: 6, status: "PARTIALLY_FILLED", eventId: "E1" },
+    });
+    expect((await get("/accounts/default")).body.account).toEqual({ id: "default", balance: 960 });
+
+    expect((await post("/execute", { orderId: "O1", quantity: 4, eventId: "E1" })).body).toMatchObject({
+      applied: false,
+      reason: "duplicate_event",
+    });
+    expect((await post("/execute", { orderId: "O9", quantity: 1 })).body).toMatchObject({
+      applied: false,
+      reason: "unknown_order",
+      eventId: expect.stringMatching(/^EXE-/),
+    });
+    expect(broadcast.map((e) => e.eventId)).toEqual(["E1"]);
+
+    const invalid = await post("/execute", { orderId: "O1", quantity: "4" });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.issues).toEqual([{ path: "$.quantity", message: "expected finite number, got string" }]);
+  });
+
+  it("broadcasts the capped fill on the order's account, ignoring client-sent stream fields", async () => {
+    engine.createAccount("ACC-A", 1000);
+    engine.createOrder({ id: "O1", quantity: 10, accountId: "ACC-A" });
+
+    await post("/execute", { orderId: "O1", quantity: 15, eventId: "E1", accountId: "ACC-B", sequence: 99, timestamp: 1 });
+    expect(broadcast).toHaveLength(1);
+    expect(broadcast[0]).toMatchObject({ eventId: "E1", orderId: "O1", accountId: "ACC-A", executedQuantity: 10 });
+    expect(broadcast[0]?.sequence).toBeUndefined();
+    expect(broadcast[0]?.timestamp).toBeUndefined();
+  });
+
+  it("answers 400 for malformed percent-encoding in the path", async () => {
+    expect(await get("/orders/%E0%A4%A")).toEqual({ status: 400, body: { error: "invalid_path" } });
+  });
+
+  it("cancels orders", async () => {
+    engine.createOrder({ id: "O1", quantity: 10 });
+
+    expect(await post("/orders/O1/cancel")).toMatchObject({ status: 200, body: { order: { id: "O1", status: "CANCELLED" } } });
+    expect(await post("/orders/O1/cancel")).toEqual({ status: 409, body: { error: "order_cancelled" } });
+    expect(await post("/orders/nope/cancel")).toEqual({ status: 404, body: { error: "unknown_order" } });
+    expect((await post("/execute", { orderId: "O1", quantity: 1 })).body.reason).toBe("order_cancelled");
+  });
+
+  it("reports unknown accounts", async () => {
+    expect(await get("/accounts/nope")).toEqual({ status: 404, body: { error: "unknown_account" } });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { createAuthenticator, hasScope, parseApiKeys, signToken, verifyToken } from "../src/auth.js";
+
+const SECRET = "test-secret";
+const NOW_MS = 1_700_000_000_000;
+const NOW_S = NOW_MS / 1000;
+
+describe("auth - API keys and scopes", () => {
+  it("parses API_KEYS and rejects malformed entries", () => {
+    expect(parseApiKeys("k-read:read, k-trade:trade")).toEqual(new Map([["k-read", "read"], ["k-trade", "trade"]]));
+    expect(parseApiKeys(undefined).size).toBe(0);
+    expect(() => parseApiKeys("k1:admin")).toThrow("Invalid API_KEYS entry: k1:admin");
+  });
+
+  it("trade includes read, not the other way round", () => {
+    expect(hasScope("trade", "read")).toBe(true);
+    expect(hasScope("read", "trade")).toBe(false);
+  });
+
+  it("authorizes API keys from Authorization or X-API-Key", () => {
+    const auth = createAuthenticator({ apiKeys: parseApiKeys("k-read:read,k-trade:trade") });
+
+    expect(auth.authorize({ headers: { authorization: "Bearer k-trade" } }, "trade")).toMatchObject({
+      ok: true,
+      principal: { scope: "trade" },
+    });
+    expect(auth.authorize({ headers: { "x-api-key": "k-read" } }, "read").ok).toBe(true);
+  });
+
+  it("accepts access_token only on WebSocket upgrades", () => {
+    const auth = createAuthenticator({ apiKeys: parseApiKeys("k-read:read") });
+    const req = { headers: {}, url: "/ws?access_token=k-read" };
+
+    expect(auth.authorize(req, "read")).toMatchObject({ ok: false, reason: "missing_credentials" });
+    expect(auth.authorizeUpgrade(req, "read").ok).toBe(true);
+    expect(auth.authorizeUpgrade({ headers: {}, url: "/ws?access_token=nope" }, "read")).toMatchObject({
+      ok: false,
+      reason: "invalid_api_key",
+    });
+  });
+
+  it("identifies API keys by a digest prefix, never by the key itself", () => {
+    const auth = createAuthenticator({ apiKeys: parseApiKeys("k-secret-1:read") });
+    const result = auth.authorize({ headers: { "x-api-key": "k-secret-1" } }, "read");
+
+    expect(result.ok && result.principal.id).toMatch(/^api-key:[\w-]{8}$/);
+    expect(result.ok && result.principal.id).not.toContain("k-se");
+  });
+
+  it("returns 401 for missing or unknown credentials and 403 for a missing scope", () => {
+    const auth = createAuthenticator({ apiKeys: parseApiKeys("k-read:read") });
+
+    expect(auth.authorize({ headers: {} }, "read")).toEqual({
+      ok: false, status: 401, error: "unauthorized", reason: "missing_credentials",
+    });
+    expect(auth.authorize({ headers: { authorization: "Bearer nope" } }, "read")).toEqual({
+      ok: false, status: 401, error: "unauthorized", reason: "invalid_api_key",
+    });
+    expect(auth.authorize({ headers: { "x-api-key": "k-read" } }, "trade")).toEqual({
+      ok: false, status: 403, error: "forbidden", reason: "insufficient_scope", requiredScope: "trade",
+    });
+  });
+
+  it("allows everything when no keys or secret are configured", () => {
+    const auth = createAuthenticator({});
+    expect(auth.enabled).toBe(false);
+    expect(auth.authorize({ headers: {} }, "trade")).toEqual({ ok: true, principal: { id: "anonymous", scope: "trade" } });
+  });
+});
+
+describe("auth - HMAC tokens", () => {
+  it("verifies a signed token offline", () => {
+    const token = signToken({ sub: "ui-session-1", scope: "read", exp: NOW_S + 60 }, SECRET);
+    expect(verifyToken(token, SECRET, NOW_S)).toEqual({
+      ok: true,
+      claims: { sub: "ui-session-1", scope: "read", exp: NOW_S + 60 },
+    });
+  });
+
+  it("rejects tampered, foreign and expired tokens", () => {
+    const token = signToken({ sub: "u1", scope: "read", exp: NOW_S + 60 }, SECRET);
+    const [, signature] = token.split(".");
+    const forged = `${Buffer.from(JSON.stringify({ sub: "u1", scope: "trade", exp: NOW_S + 60 })).toString("base64url")}.${signature}`;
+
+    expect(verifyToken(forged, SECRET, NOW_S)).toEqual({ ok: false, reason: "invalid_token" });
+    expect(verifyToken(token, "other-secret", NOW_S)).toEqual({ ok: false, reason: "invalid_token" });
+    expect(verifyToken("garbage", SECRET, NOW_S)).toEqual({ ok: false, reason: "invalid_token" });
+    expect(verifyToken(token, SECRET, NOW_S + 60)).toEqual({ ok: false, reason: "token_expired" });
+  });
+
+  it("authorizes requests by token scope", () => {
+    const auth = createAuthenticator({ tokenSecret: SECRET, now: () => NOW_MS });
+    const readToken = signToken({ sub: "viewer", scope: "read", exp: NOW_S + 60 }, SECRET);
+    const expired = signToken({ sub: "trader", scope: "trade", exp: NOW_S - 1 }, SECRET);
+
+    expect(auth.authorize({ headers: { authorization: `Bearer ${readToken}` } }, "read")).toEqual({
+      ok: true,
+      principal: { id: "viewer", scope: "read" },
+    });
+    expect(auth.authorize({ headers: { authorization: `Bearer ${readToken}` } }, "trade")).toMatchObject({ status: 403 });
+    expect(auth.authorize({ headers: { authorization: `Bearer ${expired}` } }, "read")).toMatchObject({
+      status: 401,
+      reason: "token_expired",
+    });
+  });
+});
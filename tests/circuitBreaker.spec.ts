@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { CircuitBreaker, type CircuitTransition } from "../src/circuitBreaker.js";
+
+describe("CircuitBreaker", () => {
+  function setup(options: ConstructorParameters<typeof CircuitBreaker>[0] = {}) {
+    let now = 0;
+    const breaker = new CircuitBreaker({ cooldownMs: 100, ...options }, () => now);
+    const transitions: CircuitTransition[] = [];
+    breaker.events.on("transition", (t) => transitions.push(t));
+    return { breaker, transitions, advance: (ms: number) => (now += ms) };
+  }
+
+  it("trips on consecutive errors", () => {
+    const { breaker, transitions } = setup({ errorThreshold: 2 });
+    breaker.record("error");
+    breaker.record("success");
+    breaker.record("error");
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.record("error");
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.canExecute()).toBe(false);
+    expect(transitions).toEqual([{ from: "closed", to: "open", reason: "errors" }]);
+  });
+
+  it("trips on the failure rate once the window has enough calls", () => {
+    const { breaker, transitions } = setup({ failureRateThreshold: 0.5, windowSize: 4, minimumCalls: 4 });
+    ["rejection", "rejection", "rejection"].forEach(() => breaker.record("rejection"));
+    expect(breaker.getState()).toBe("closed"); // below minimumCalls
+
+    breaker.record("success");
+    expect(transitions).toEqual([{ from: "closed", to: "open", reason: "failure_rate", failureRate: 0.75 }]);
+  });
+
+  it("only considers the most recent window", () => {
+    const { breaker } = setup({ failureRateThreshold: 0.5, windowSize: 4, minimumCalls: 4 });
+    ["rejection", "success", "success", "success", "rejection", "success"].forEach((o) =>
+      breaker.record(o as "rejection" | "success")
+    );
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("half-opens after the cooldown and closes after enough trial successes", () => {
+    const { breaker, transitions, advance } = setup({ halfOpenSuccesses: 2 });
+    breaker.record("error");
+    advance(60);
+    expect(breaker.remainingCooldownMs()).toBe(40);
+    expect(breaker.canExecute()).toBe(false);
+
+    advance(40);
+    expect(breaker.canExecute()).toBe(true);
+    breaker.record("success");
+    expect(breaker.getState()).toBe("half_open");
+    breaker.record("success");
+
+    expect(transitions.map((t) => `${t.to}:${t.reason}`)).toEqual([
+      "open:errors",
+      "half_open:cooldown_elapsed",
+      "closed:trial_succeeded",
+    ]);
+  });
+
+  it("re-opens on a failed trial and restarts the cooldown", () => {
+    const { breaker, advance } = setup();
+    breaker.record("error");
+    advance(100);
+    breaker.canExecute();
+    breaker.record("rejection");
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.remainingCooldownMs()).toBe(100);
+  });
+});
@@ -0,0 +1,62 @@
+import { bench, describe } from "vitest";
+import WebSocket from "ws";
+import { jsonCodec, msgpackCodec, MSGPACK_SUBPROTOCOL, type Codec } from "../src/codec.js";
+import { startWsServer } from "../src/wsServer.js";
+import type { ExecutionEvent } from "../src/types.js";
+
+/**
+ * JSON vs MessagePack for large execution bursts.
+ * Run with: npm run bench
+ */
+
+const BURST = 5_000;
+
+const events: ExecutionEvent[] = Array.from({ length: BURST }, (_, i) => ({
+  type: "execution",
+  eventId: `E-${i}`,
+  orderId: `O-${i % 50}`,
+  accountId: `ACC-${i % 5}`,
+  executedQuantity: 1 + (i % 7),
+  price: 100 + (i % 100) / 100,
+  fee: 0.01,
+  sequence: i + 1,
+}));
+
+describe(`codec only: encode + decode ${BURST} events`, () => {
+  for (const codec of [jsonCodec, msgpackCodec]) {
+    bench(codec.name, () => {
+      for (const event of events) codec.decode(Buffer.from(codec.encode(event)));
+    });
+  }
+});
+
+/**
+ * Broadcast a burst through startWsServer and wait until a client has
+ * received (and decoded) every frame.
+ */
+async function streamBurst(codec: Codec) {
+  const server = startWsServer(0, { heartbeatIntervalMs: 0 });
+  const ws = codec === jsonCodec
+    ? new WebSocket(`ws://127.0.0.1:${server.getPort()}`)
+    : new WebSocket(`ws://127.0.0.1:${server.getPort()}`, [MSGPACK_SUBPROTOCOL]);
+  await new Promise((r) => ws.once("open", r));
+
+  const received = new Promise<void>((resolve) => {
+    let count = 0;
+    ws.on("message", (data) => {
+      codec.decode(data as Buffer);
+      if (++count === BURST) resolve();
+    });
+  });
+  for (const event of events) server.broadcast(event);
+  await received;
+
+  ws.close();
+  await server.close();
+}
+
+describe(`over the wire: ${BURST}-event burst`, () => {
+  for (const codec of [jsonCodec, msgpackCodec]) {
+    bench(codec.name, () => streamBurst(codec), { iterations: 5, time: 0 });
+  }
+});
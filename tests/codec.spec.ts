@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import WebSocket, { WebSocketServer } from "ws";
+import {
+  MSGPACK_SUBPROTOCOL,
+  JSON_SUBPROTOCOL,
+  codecForProtocol,
+  decodeMessage,
+  jsonCodec,
+  msgpackCodec,
+  selectSubprotocol,
+} from "../src/codec.js";
+import { validateInboundMessage, validateOutboundMessage } from "../src/messageValidation.js";
+import { startWsServer } from "../src/wsServer.js";
+import { connectAndConsume } from "../src/wsClientConsumer.js";
+import { TradingEngine } from "../src/engine.js";
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+const inbound = [
+  { type: "execution", eventId: "E1", orderId: "O1", accountId: "ACC1", executedQuantity: 3, price: 101.25, fee: 0.5, sequence: 42 },
+  { type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 1 },
+  { type: "hello", ok: true },
+  { type: "heartbeat", timestamp: 1_700_000_000_000 },
+  { type: "subscription_ack", orderIds: ["O1"], accountIds: [] },
+  { type: "replay_unavailable", fromSequence: 1, oldestSequence: 9 },
+];
+
+const outbound = [
+  { type: "replay", fromSequence: 7 },
+  { type: "subscribe", orderIds: ["O1", "O2"] },
+  { type: "ack", eventId: "E1", sequence: 42 },
+];
+
+describe("codecs - round trip", () => {
+  for (const codec of [jsonCodec, msgpackCodec]) {
+    it(`${codec.name} preserves every message type`, () => {
+      for (const message of inbound) {
+        const data = Buffer.from(codec.encode(message));
+        expect(decodeMessage(codec, data, validateInboundMessage)).toEqual({ ok: true, value: message });
+      }
+      for (const message of outbound) {
+        const data = Buffer.from(codec.encode(message));
+        expect(decodeMessage(codec, data, validateOutboundMessage)).toEqual({ ok: true, value: message });
+      }
+    });
+  }
+
+  it("msgpack omits undefined optional fields instead of encoding nil", () => {
+    const data = Buffer.from(msgpackCodec.encode({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1, price: undefined }));
+    expect(msgpackCodec.decode(data)).toEqual({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+  });
+
+  it("msgpack frames are smaller than JSON for execution events", () => {
+    const event = inbound[0];
+    expect(Buffer.from(msgpackCodec.encode(event)).length).toBeLessThan(Buffer.from(jsonCodec.encode(event)).length);
+  });
+
+  it("reports undecodable frames as issues", () => {
+    expect(decodeMessage(jsonCodec, Buffer.from("{nope"), validateInboundMessage)).toMatchObject({
+      ok: false,
+      issues: [{ path: "$", message: expect.stringMatching(/^invalid JSON: /) }],
+    });
+    expect(decodeMessage(msgpackCodec, Buffer.from([0xc1]), validateInboundMessage)).toMatchObject({
+      ok: false,
+      issues: [{ path: "$", message: expect.stringMatching(/^invalid MessagePack: /) }],
+    });
+  });
+});
+
+describe("codecs - subprotocol negotiation", () => {
+  it("prefers msgpack and falls back to JSON", () => {
+    expect(selectSubprotocol(new Set([JSON_SUBPROTOCOL, MSGPACK_SUBPROTOCOL]))).toBe(MSGPACK_SUBPROTOCOL);
+    expect(selectSubprotocol(new Set([JSON_SUBPROTOCOL]))).toBe(JSON_SUBPROTOCOL);
+    expect(selectSubprotocol(new Set(["other"]))).toBe(false);
+    expect(codecForProtocol("")).toBe(jsonCodec);
+    expect(codecForProtocol(MSGPACK_SUBPROTOCOL)).toBe(msgpackCodec);
+  });
+
+  it("streams binary frames to msgpack consumers and text to JSON clients", async () => {
+    const server = startWsServer(0, { ackTimeoutMs: 50 });
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const consumer = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, { codec: "msgpack" });
+    await consumer.waitOpen();
+
+    const json = new WebSocket(`ws://127.0.0.1:${server.getPort()}`);
+    const jsonFrames: Array<{ isBinary: boolean; text: string }> = [];
+    json.on("message", (data, isBinary) => jsonFrames.push({ isBinary, text: data.toString() }));
+    await new Promise((r) => json.once("open", r));
+
+    expect(consumer.ws.protocol).toBe(MSGPACK_SUBPROTOCOL);
+    const binaryFrames: boolean[] = [];
+    consumer.ws.on("message", (_data, isBinary) => binaryFrames.push(isBinary));
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4, price: 2 });
+    await sleep(30);
+
+    expect(binaryFrames).toEqual([true]);
+    expect(engine.getOrder("O1")).toMatchObject({ filledQuantity: 4, averageFillPrice: 2 });
+    expect(jsonFrames).toEqual([
+      { isBinary: false, text: expect.stringContaining('"type":"hello"') },
+      { isBinary: false, text: expect.stringContaining('"eventId":"E1"') },
+    ]);
+    // The consumer's msgpack ack was decoded; only the JSON client (which never acks) is pending
+    expect(server.getStats().unackedEvents).toBe(1);
+
+    json.close();
+    await consumer.close();
+    await server.close();
+  });
+
+  it("decodes text frames as JSON when a server accepted msgpack without speaking it", async () => {
+    // ws without handleProtocols agrees to the first subprotocol offered
+    const wss = new WebSocketServer({ port: 0 });
+    wss.on("connection", (ws) => {
+      ws.send(JSON.stringify({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4 }));
+    });
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const port = (wss.address() as { port: number }).port;
+    const consumer = connectAndConsume(`ws://127.0.0.1:${port}`, engine, { codec: "msgpack" });
+    const invalid: unknown[] = [];
+    consumer.events.on("invalid_message", (m) => invalid.push(m));
+    await consumer.waitOpen();
+    await sleep(30);
+
+    expect(consumer.ws.protocol).toBe(MSGPACK_SUBPROTOCOL);
+    expect(invalid).toEqual([]);
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(4);
+
+    await consumer.close();
+    await new Promise((r) => wss.close(r));
+  });
+
+  it("falls back to JSON against a server that only accepts the JSON subprotocol", async () => {
+    const wss = new WebSocketServer({
+      port: 0,
+      handleProtocols: (offered) => (offered.has(JSON_SUBPROTOCOL) ? JSON_SUBPROTOCOL : false),
+    });
+    const acks: unknown[] = [];
+    wss.on("connection", (ws) => {
+      ws.on("message", (data, isBinary) => acks.push(isBinary ? "binary" : JSON.parse(data.toString())));
+      ws.send(JSON.stringify({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4 }));
+    });
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const port = (wss.address() as { port: number }).port;
+    const consumer = connectAndConsume(`ws://127.0.0.1:${port}`, engine, { codec: "msgpack" });
+    await consumer.waitOpen();
+    await sleep(30);
+
+    expect(consumer.ws.protocol).toBe(JSON_SUBPROTOCOL);
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(4);
+    expect(acks).toEqual([{ type: "ack", eventId: "E1" }]);
+
+    await consumer.close();
+    await new Promise((r) => wss.close(r));
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { TradingEngine } from "../src/engine.js";
+import { FileDeadLetterQueue, MemoryDeadLetterQueue, redriveDeadLetters } from "../src/deadLetterQueue.js";
+import { startWsServer } from "../src/wsServer.js";
+import { connectAndConsume } from "../src/wsClientConsumer.js";
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function newEngine() {
+  const engine = new TradingEngine();
+  engine.createAccount("default", 1000);
+  engine.createOrder({ id: "O1", quantity: 10 });
+  return engine;
+}
+
+describe("dead-letter queue - consumer capture", () => {
+  it("captures malformed frames, rejections and apply errors but not duplicates", async () => {
+    const server = startWsServer(0);
+    const engine = newEngine();
+    const deadLetters = new MemoryDeadLetterQueue();
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, { deadLetters });
+    await client.waitOpen();
+
+    const before = Date.now();
+    server.wss.clients.forEach((ws) => ws.send("{not json"));
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 2 });
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 2 });
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "O-missing", executedQuantity: 1 });
+    await sleep(30);
+
+    const entries = deadLetters.list();
+    expect(entries.map((e) => e.kind)).toEqual(["malformed", "rejected"]);
+    expect(entries[0]).toMatchObject({ id: 1, raw: "{not json", encoding: "json", redriveAttempts: 0 });
+    expect(entries[0]?.issues?.[0]?.message).toMatch(/^invalid JSON/);
+    expect(entries[1]).toMatchObject({ reason: "unknown_order", event: { eventId: "E2" } });
+    expect(JSON.parse(entries[1]?.raw ?? "")).toMatchObject({ eventId: "E2", sequence: 3 });
+    expect(entries[1]?.receivedAt).toBeGreaterThanOrEqual(before);
+    expect(deadLetters.list({ reason: "unknown_order" })).toHaveLength(1);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("acks an apply failure once it is dead-lettered", async () => {
+    const server = startWsServer(0, { ackTimeoutMs: 40 });
+    const engine = newEngine();
+    engine.applyExecution = () => {
+      throw new Error("engine bug");
+    };
+    const deadLetters = new MemoryDeadLetterQueue();
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, { deadLetters });
+    await client.waitOpen();
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 2 });
+    await sleep(100);
+
+    expect(deadLetters.list()).toMatchObject([{ kind: "apply_error", error: "engine bug", event: { eventId: "E1" } }]);
+    expect(server.getStats()).toMatchObject({ unackedEvents: 0, redeliveries: 0 });
+    expect(client.getLastSequence()).toBe(1);
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("dead-letter queue - re-drive", () => {
+  it("applies entries once the cause is fixed and keeps the rest", () => {
+    const engine = newEngine();
+    const queue = new MemoryDeadLetterQueue();
+    const event = { type: "execution" as const, eventId: "E2", orderId: "O2", executedQuantity: 3 };
+    queue.add({ kind: "rejected", raw: JSON.stringify(event), encoding: "json", receivedAt: 1, event, reason: "unknown_order" });
+    queue.add({ kind: "malformed", raw: "{not json", encoding: "json", receivedAt: 2, issues: [] });
+
+    expect(redriveDeadLetters(queue, engine, {}, () => 50)).toMatchObject([
+      { id: 1, outcome: "rejected", reason: "unknown_order" },
+      { id: 2, outcome: "invalid" },
+    ]);
+    expect(queue.get(1)).toMatchObject({ redriveAttempts: 1, lastRedriveAt: 50 });
+
+    engine.createOrder({ id: "O2", quantity: 5 });
+    expect(redriveDeadLetters(queue, engine, { kind: "rejected" })).toEqual([{ id: 1, outcome: "applied" }]);
+    expect(engine.getOrder("O2")?.filledQuantity).toBe(3);
+    expect(queue.list().map((e) => e.id)).toEqual([2]);
+  });
+
+  it("re-validates malformed entries from the raw frame", () => {
+    const engine = newEngine();
+    const queue = new MemoryDeadLetterQueue();
+    // e.g. captured before a validator fix, or hand-corrected by an operator
+    queue.add({
+      kind: "malformed",
+      raw: JSON.stringify({ type: "execution", eventId: "E5", orderId: "O1", executedQuantity: 1 }),
+      encoding: "json",
+      receivedAt: 1,
+      issues: [{ path: "$.executedQuantity", message: "expected positive number" }],
+    });
+
+    expect(redriveDeadLetters(queue, engine, { ids: [1] })).toEqual([{ id: 1, outcome: "applied" }]);
+    expect(queue.list()).toEqual([]);
+  });
+});
+
+describe("dead-letter queue - NDJSON file", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "engine-dlq-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("restores pending entries, attempts and ids after reopening", () => {
+    const file = path.join(dir, "dlq", "executions.ndjson");
+    const queue = new FileDeadLetterQueue(file);
+    queue.add({ kind: "malformed", raw: "a", encoding: "json", receivedAt: 1, issues: [] });
+    queue.add({ kind: "malformed", raw: "b", encoding: "json", receivedAt: 2, issues: [] });
+    queue.touch(2, 10, { issues: [{ path: "$", message: "still bad" }] });
+    queue.remove(1);
+    fs.appendFileSync(file, '{"op":"add","entry":{"id":9'); // crash mid-write
+
+    const reopened = new FileDeadLetterQueue(file);
+    expect(reopened.list()).toMatchObject([
+      { id: 2, raw: "b", redriveAttempts: 1, lastRedriveAt: 10, issues: [{ message: "still bad" }] },
+    ]);
+    expect(reopened.add({ kind: "malformed", raw: "c", encoding: "json", receivedAt: 3 }).id).toBe(3);
+    expect(new FileDeadLetterQueue(file).list().map((e) => e.raw)).toEqual(["b", "c"]);
+  });
+});
@@ -55,7 +55,7 @@ test("[TC_API_IDEMPOTENCY_001] API: client-side idempotency with eventId (dedup
   await expect(exec2Resp).toBeOK();
   const exec2 = await exec2Resp.json();
   expect(exec2.applied).toBe(false); // ← Server rejected duplicate
-  expect(exec2.reason).toBe("duplicate");
+  expect(exec2.reason).toBe("duplicate_event");
 
   // Apply to consumer - should be rejected (idempotent)
   const result2 = consumer.apply({
@@ -65,7 +65,7 @@ test("[TC_API_IDEMPOTENCY_001] API: client-side idempotency with eventId (dedup
     executedQuantity: 50
   });
   expect(result2.applied).toBe(false);
-  expect(result2.reason).toBe("duplicate");
+  expect(result2.reason).toBe("duplicate_event");
   
   // State must NOT change on duplicate
   expect(consumer.order.filledQuantity).toBe(50); // Still 50, not 100
@@ -0,0 +1,308 @@
+import { describe, it, expect } from "vitest";
+import { TradingEngine } from "../src/engine.js";
+import { canTransition, isTerminalStatus } from "../src/orderLifecycle.js";
+import { DEFAULT_ACCOUNT_ID } from "../src/types.js";
+
+/**
+ * TradingEngine order book tests:
+ * one engine instance managing many orders and accounts keyed by id.
+ */
+describe("TradingEngine - multi-order book", () => {
+  it("creates, looks up and lists orders", () => {
+    const engine = new TradingEngine();
+    engine.createAccount("A1", 100);
+
+    const o1 = engine.createOrder({ id: "O1", quantity: 10, accountId: "A1" });
+    const o2 = engine.createOrder({ id: "O2", quantity: 5, accountId: "A1" });
+
+    expect(o1).toEqual({ id: "O1", side: "BUY", accountId: "A1", quantity: 10, filledQuantity: 0, status: "OPEN" });
+    expect(engine.getOrder("O2")).toBe(o2);
+    expect(engine.getOrder("missing")).toBeUndefined();
+    expect(engine.listOrders().map((o) => o.id)).toEqual(["O1", "O2"]);
+  });
+
+  it("routes executions to the matching order and account", () => {
+    const engine = new TradingEngine();
+    const a1 = engine.createAccount("A1", 100);
+    const a2 = engine.createAccount("A2", 50);
+    const o1 = engine.createOrder({ id: "O1", quantity: 10, accountId: "A1" });
+    const o2 = engine.createOrder({ id: "O2", quantity: 10, accountId: "A2" });
+
+    expect(engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4 }).applied).toBe(true);
+    expect(engine.applyExecution({ type: "execution", eventId: "E2", orderId: "O2", executedQuantity: 10 }).applied).toBe(true);
+
+    expect(o1.filledQuantity).toBe(4);
+    expect(o1.status).toBe("PARTIALLY_FILLED");
+    expect(o2.status).toBe("FILLED");
+    expect(a1.balance).toBe(96);
+    expect(a2.balance).toBe(40);
+  });
+
+  it("shares idempotency across orders (eventId is global)", () => {
+    const engine = new TradingEngine();
+    engine.createAccount(DEFAULT_ACCOUNT_ID, 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const o2 = engine.createOrder({ id: "O2", quantity: 10 });
+
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+    const result = engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O2", executedQuantity: 1 });
+
+    expect(result).toEqual({ applied: false, reason: "duplicate_event", effectiveQuantity: 0 });
+    expect(o2.filledQuantity).toBe(0);
+  });
+
+  it("rejects executions for unregistered orders and accounts", () => {
+    const engine = new TradingEngine();
+    engine.createOrder({ id: "O1", quantity: 10, accountId: "NOPE" });
+
+    expect(engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O9", executedQuantity: 1 }))
+      .toEqual({ applied: false, reason: "unknown_order", effectiveQuantity: 0 });
+    expect(engine.applyExecution({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 1 }))
+      .toEqual({ applied: false, reason: "unknown_account", effectiveQuantity: 0, remainingQuantity: 10, status: "OPEN" });
+    expect(engine.getProcessedEventIds().size).toBe(0);
+  });
+
+  it("filters orders by account (orders without accountId use the default account)", () => {
+    const engine = new TradingEngine();
+    engine.createOrder({ id: "O1", quantity: 1 });
+    engine.createOrder({ id: "O2", quantity: 1, accountId: "A1" });
+
+    expect(engine.listOrders({ accountId: "A1" }).map((o) => o.id)).toEqual(["O2"]);
+    expect(engine.listOrders({ accountId: DEFAULT_ACCOUNT_ID }).map((o) => o.id)).toEqual(["O1"]);
+  });
+
+  it("throws on duplicate ids and invalid quantities", () => {
+    const engine = new TradingEngine();
+    engine.createAccount("A1");
+    engine.createOrder({ id: "O1", quantity: 1 });
+
+    expect(() => engine.createAccount("A1")).toThrow("Account already exists: A1");
+    expect(() => engine.createOrder({ id: "O1", quantity: 1 })).toThrow("Order already exists: O1");
+    expect(() => engine.createOrder({ id: "O2", quantity: 0 })).toThrow("Invalid order quantity: 0");
+  });
+});
+
+describe("TradingEngine - price-aware executions", () => {
+  it("debits the account by notional plus fee", () => {
+    const engine = new TradingEngine();
+    const account = engine.createAccount("A1", 1000);
+    const order = engine.createOrder({ id: "O1", quantity: 10, accountId: "A1" });
+
+    const result = engine.applyExecution({
+      type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4, price: 25, fee: 1.5,
+    });
+
+    expect(result.applied).toBe(true);
+    expect(account.balance).toBe(1000 - 4 * 25 - 1.5);
+    expect(order.filledNotional).toBe(100);
+    expect(order.averageFillPrice).toBe(25);
+  });
+
+  it("tracks volume-weighted average fill price across fills", () => {
+    const engine = new TradingEngine();
+    engine.createAccount("A1", 1000);
+    const order = engine.createOrder({ id: "O1", quantity: 10, accountId: "A1" });
+
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 2, price: 10 });
+    engine.applyExecution({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 6, price: 20 });
+
+    expect(order.filledNotional).toBe(140);
+    expect(order.averageFillPrice).toBe(17.5);
+  });
+
+  it("uses the capped quantity for notional on overfill", () => {
+    const engine = new TradingEngine();
+    const account = engine.createAccount("A1", 1000);
+    const order = engine.createOrder({ id: "O1", quantity: 3, accountId: "A1" });
+
+    const result = engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 5, price: 10 });
+
+    expect(result).toEqual({
+      applied: true, reason: "capped_overfill", effectiveQuantity: 3, remainingQuantity: 0, status: "FILLED",
+    });
+    expect(order.filledNotional).toBe(30);
+    expect(account.balance).toBe(970);
+  });
+
+  it("rejects invalid prices and fees without mutating state", () => {
+    const engine = new TradingEngine();
+    const account = engine.createAccount("A1", 1000);
+    const order = engine.createOrder({ id: "O1", quantity: 10, accountId: "A1" });
+
+    expect(engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1, price: 0 }))
+      .toMatchObject({ applied: false, reason: "invalid_price" });
+    expect(engine.applyExecution({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 1, price: Number.NaN }))
+      .toMatchObject({ applied: false, reason: "invalid_price" });
+    expect(engine.applyExecution({ type: "execution", eventId: "E3", orderId: "O1", executedQuantity: 1, fee: -1 }))
+      .toMatchObject({ applied: false, reason: "invalid_fee" });
+
+    expect(order.filledQuantity).toBe(0);
+    expect(account.balance).toBe(1000);
+  });
+});
+
+describe("TradingEngine - BUY/SELL sides and positions", () => {
+  it("credits the balance and draws down the position on SELL fills", () => {
+    const engine = new TradingEngine();
+    const account = engine.addAccount({ id: "A1", balance: 100, positions: { BTC: 5 } });
+    engine.createOrder({ id: "S1", side: "SELL", instrument: "BTC", quantity: 3, accountId: "A1" });
+
+    const result = engine.applyExecution({ type: "execution", eventId: "E1", orderId: "S1", executedQuantity: 3, price: 20, fee: 2 });
+
+    expect(result).toEqual({ applied: true, effectiveQuantity: 3, remainingQuantity: 0, status: "FILLED" });
+    expect(account.balance).toBe(100 + 60 - 2);
+    expect(account.positions).toEqual({ BTC: 2 });
+  });
+
+  it("adds to the position on BUY fills", () => {
+    const engine = new TradingEngine();
+    const account = engine.createAccount("A1", 100);
+    engine.createOrder({ id: "B1", instrument: "ETH", quantity: 4, accountId: "A1" });
+
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "B1", executedQuantity: 4, price: 10 });
+
+    expect(account.balance).toBe(60);
+    expect(account.positions).toEqual({ ETH: 4 });
+  });
+
+  it("rejects BUY fills the balance cannot cover", () => {
+    const engine = new TradingEngine();
+    const account = engine.createAccount("A1", 50);
+    const order = engine.createOrder({ id: "B1", quantity: 10, accountId: "A1" });
+
+    const result = engine.applyExecution({ type: "execution", eventId: "E1", orderId: "B1", executedQuantity: 5, price: 10, fee: 1 });
+
+    expect(result).toEqual({
+      applied: false, reason: "insufficient_balance", effectiveQuantity: 0, remainingQuantity: 10, status: "OPEN",
+    });
+    expect(order.filledQuantity).toBe(0);
+    expect(account.balance).toBe(50);
+    expect(engine.getProcessedEventIds().size).toBe(0);
+  });
+
+  it("rejects SELL fills larger than the held position", () => {
+    const engine = new TradingEngine();
+    const account = engine.addAccount({ id: "A1", balance: 0, positions: { BTC: 1 } });
+    const order = engine.createOrder({ id: "S1", side: "SELL", instrument: "BTC", quantity: 5, accountId: "A1" });
+
+    const result = engine.applyExecution({ type: "execution", eventId: "E1", orderId: "S1", executedQuantity: 2, price: 10 });
+
+    expect(result).toMatchObject({ applied: false, reason: "insufficient_position" });
+    expect(order.filledQuantity).toBe(0);
+    expect(account).toEqual({ id: "A1", balance: 0, positions: { BTC: 1 } });
+  });
+
+  it("rejects SELL fills whose fee exceeds their proceeds", () => {
+    const engine = new TradingEngine();
+    const account = engine.createAccount("A1", 100);
+    const order = engine.createOrder({ id: "S1", side: "SELL", quantity: 5, accountId: "A1" });
+
+    const result = engine.applyExecution({ type: "execution", eventId: "E1", orderId: "S1", executedQuantity: 2, price: 1, fee: 3 });
+
+    expect(result).toMatchObject({ applied: false, reason: "fee_exceeds_notional" });
+    expect(order.filledQuantity).toBe(0);
+    expect(account.balance).toBe(100);
+  });
+
+  it("matches executeOrder semantics for SELL orders without an instrument", () => {
+    const order = { id: "S1", side: "SELL" as const, quantity: 10, filledQuantity: 8, status: "PARTIALLY_FILLED" as const };
+    const account = { balance: 100 };
+    const engine = new TradingEngine(order, account);
+
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "S1", executedQuantity: 5 });
+
+    expect(order.filledQuantity).toBe(10);
+    expect(account.balance).toBe(102);
+  });
+});
+
+describe("TradingEngine - order lifecycle", () => {
+  function setup() {
+    const engine = new TradingEngine();
+    const account = engine.createAccount("A1", 100);
+    const order = engine.createOrder({ id: "O1", quantity: 10, accountId: "A1" });
+    return { engine, account, order };
+  }
+
+  it("validates transitions against the state table", () => {
+    expect(canTransition("OPEN", "CANCELLED")).toBe(true);
+    expect(canTransition("PARTIALLY_FILLED", "EXPIRED")).toBe(true);
+    expect(canTransition("PARTIALLY_FILLED", "REJECTED")).toBe(false);
+    expect(canTransition("FILLED", "CANCELLED")).toBe(false);
+    expect(canTransition("CANCELLED", "OPEN")).toBe(false);
+    expect(isTerminalStatus("EXPIRED")).toBe(true);
+    expect(isTerminalStatus("PARTIALLY_FILLED")).toBe(false);
+  });
+
+  it("cancels a partially filled order and rejects later executions", () => {
+    const { engine, account, order } = setup();
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4 });
+
+    expect(engine.cancelOrder("O1")).toEqual({ applied: true, status: "CANCELLED" });
+    expect(order.status).toBe("CANCELLED");
+    expect(order.filledQuantity).toBe(4);
+
+    const result = engine.applyExecution({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 1 });
+    expect(result).toEqual({
+      applied: false, reason: "order_cancelled", effectiveQuantity: 0, remainingQuantity: 6, status: "CANCELLED",
+    });
+    expect(account.balance).toBe(96);
+  });
+
+  it("rejects executions on expired orders", () => {
+    const { engine, order } = setup();
+
+    expect(engine.expireOrder("O1")).toEqual({ applied: true, status: "EXPIRED" });
+    expect(engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 }))
+      .toMatchObject({ applied: false, reason: "order_expired" });
+    expect(order.filledQuantity).toBe(0);
+  });
+
+  it("refuses lifecycle changes on terminal or unknown orders", () => {
+    const { engine } = setup();
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 10 });
+
+    expect(engine.cancelOrder("O1")).toEqual({ applied: false, reason: "already_filled" });
+    expect(engine.cancelOrder("missing")).toEqual({ applied: false, reason: "unknown_order" });
+
+    engine.createOrder({ id: "O2", quantity: 5, accountId: "A1" });
+    engine.cancelOrder("O2");
+    expect(engine.expireOrder("O2")).toEqual({ applied: false, reason: "order_cancelled" });
+  });
+
+  it("only rejects orders without fills", () => {
+    const { engine, order } = setup();
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+
+    expect(engine.rejectOrder("O1")).toEqual({ applied: false, reason: "invalid_transition" });
+    expect(order.status).toBe("PARTIALLY_FILLED");
+
+    engine.createOrder({ id: "O2", quantity: 5, accountId: "A1" });
+    expect(engine.rejectOrder("O2")).toEqual({ applied: true, status: "REJECTED" });
+    expect(engine.getOrder("O2")?.status).toBe("REJECTED");
+  });
+
+  it("amends quantity down and completes the order at the filled quantity", () => {
+    const { engine, order } = setup();
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4 });
+
+    expect(engine.amendOrder("O1", 6)).toEqual({ applied: true, status: "PARTIALLY_FILLED" });
+    expect(order.quantity).toBe(6);
+    expect(order.status).toBe("PARTIALLY_FILLED");
+
+    expect(engine.amendOrder("O1", 4)).toEqual({ applied: true, status: "FILLED" });
+  });
+
+  it("rejects amends up, below the filled quantity, or on closed orders", () => {
+    const { engine, order } = setup();
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4 });
+
+    expect(engine.amendOrder("O1", 12)).toEqual({ applied: false, reason: "invalid_amend_quantity" });
+    expect(engine.amendOrder("O1", 10)).toEqual({ applied: false, reason: "invalid_amend_quantity" });
+    expect(engine.amendOrder("O1", 3)).toEqual({ applied: false, reason: "invalid_amend_quantity" });
+    expect(order.quantity).toBe(10);
+
+    engine.cancelOrder("O1");
+    expect(engine.amendOrder("O1", 5)).toEqual({ applied: false, reason: "order_cancelled" });
+  });
+});
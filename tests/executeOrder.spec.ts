@@ -86,3 +86,42 @@ describe("executeOrder - QA risk tests", () => {
     expect(account.balance).toBe(afterFirst.balance);
   });
 });
+
+describe("executeOrder - notional accounting", () => {
+  it("moves the balance by price * quantity and tracks average price", () => {
+    const buy: Order = { id: "O7", side: "BUY", quantity: 10, filledQuantity: 0, status: "OPEN" };
+    const sell: Order = { id: "O8", side: "SELL", quantity: 10, filledQuantity: 0, status: "OPEN" };
+    const account: Account = { balance: 1000 };
+
+    executeOrder(buy, account, 4, 12.5);
+    expect(account.balance).toBe(950);
+    expect(buy.filledNotional).toBe(50);
+    expect(buy.averageFillPrice).toBe(12.5);
+
+    executeOrder(sell, account, 2, 30);
+    expect(account.balance).toBe(1010);
+    expect(sell.averageFillPrice).toBe(30);
+  });
+
+  it("charges the fee on top of a BUY and out of a SELL, without touching the average price", () => {
+    const buy: Order = { id: "O9", side: "BUY", quantity: 10, filledQuantity: 0, status: "OPEN" };
+    const sell: Order = { id: "O10", side: "SELL", quantity: 10, filledQuantity: 0, status: "OPEN" };
+    const account: Account = { balance: 1000 };
+
+    executeOrder(buy, account, 4, 12.5, 1.5);
+    expect(account.balance).toBe(1000 - 50 - 1.5);
+    expect(buy.averageFillPrice).toBe(12.5);
+
+    executeOrder(sell, account, 2, 30, 2);
+    expect(account.balance).toBe(948.5 + 60 - 2);
+  });
+
+  it("charges no fee when nothing is left to fill", () => {
+    const order: Order = { id: "O11", side: "BUY", quantity: 10, filledQuantity: 10, status: "FILLED" };
+    const account: Account = { balance: 100 };
+
+    executeOrder(order, account, 3, 1, 5);
+
+    expect(account.balance).toBe(100);
+  });
+});
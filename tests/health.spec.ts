@@ -23,3 +23,20 @@ describe("API smoke - /health", () => {
     expect(json).toEqual({ ok: true });
   });
 });
+
+describe("API smoke - /health with WebSocket stats", () => {
+  it("reports WebSocket connection stats", async () => {
+    const stats = { live: 3, dead: 1, droppedMessages: 4, slowConsumerDisconnects: 0, unackedEvents: 2, redeliveries: 5 };
+    const server = createServer({ wsStats: () => stats });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const addr = server.address();
+    const port = addr && typeof addr === "object" ? addr.port : 0;
+
+    try {
+      const r = await fetch(`http://127.0.0.1:${port}/health`);
+      expect(await r.json()).toEqual({ ok: true, ws: stats });
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
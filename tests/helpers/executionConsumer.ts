@@ -7,8 +7,13 @@
  * - Invariant enforcement (no overfill, no mutation when FILLED)
  * - Deterministic effective quantity (cap at remaining)
  * - State consistency validation
+ * - Same RejectionReason / ApplyResult contract as TradingEngine
  */
 
+import type { ApplyResult, RejectionReason } from "../../src/types.js";
+
+export type { ApplyResult, RejectionReason };
+
 export type OrderStatus = "OPEN" | "PARTIALLY_FILLED" | "FILLED";
 
 export interface OrderState {
@@ -30,12 +35,6 @@ export interface ExecutionEvent {
   timestamp?: number;
 }
 
-export interface ApplyResult {
-  applied: boolean;
-  reason?: string;
-  effectiveQuantity?: number;
-}
-
 /**
  * Client-side consumer: what a UI / gateway would do
  */
@@ -55,26 +54,22 @@ export class ExecutionConsumer {
   apply(evt: ExecutionEvent): ApplyResult {
     // Invariant 1: Duplicate detection (idempotency)
     if (this.seen.has(evt.eventId)) {
-      this.rejectedCount++;
-      return { applied: false, reason: "duplicate" };
+      return this.reject("duplicate_event");
     }
 
     // Invariant 2: Order ID match
     if (evt.orderId !== this.order.id) {
-      this.rejectedCount++;
-      return { applied: false, reason: "wrong_order" };
+      return this.reject("unknown_order");
     }
 
     // Invariant 3: Positive quantity
     if (evt.executedQuantity <= 0) {
-      this.rejectedCount++;
-      return { applied: false, reason: "invalid_qty" };
+      return this.reject("invalid_executed_quantity");
     }
 
     // Invariant 4: Cannot mutate if already FILLED
     if (this.order.status === "FILLED") {
-      this.rejectedCount++;
-      return { applied: false, reason: "already_filled" };
+      return this.reject("already_filled");
     }
 
     // Calculate effective quantity (cap at remaining)
@@ -98,12 +93,25 @@ export class ExecutionConsumer {
     this.seen.add(evt.eventId);
     this.appliedCount++;
 
-    const isCapped = effective < evt.executedQuantity;
-
-    return {
+    const result: ApplyResult = {
       applied: true,
-      reason: isCapped ? "capped" : undefined,
       effectiveQuantity: effective,
+      remainingQuantity: this.order.quantity - this.order.filledQuantity,
+      status: this.order.status,
+    };
+    if (effective < evt.executedQuantity) result.reason = "capped_overfill";
+
+    return result;
+  }
+
+  private reject(reason: RejectionReason): ApplyResult {
+    this.rejectedCount++;
+    return {
+      applied: false,
+      reason,
+      effectiveQuantity: 0,
+      remainingQuantity: this.order.quantity - this.order.filledQuantity,
+      status: this.order.status,
     };
   }
 
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { TradingEngine } from "../src/engine.js";
+import {
+  MemoryIdempotencyStore,
+  RedisIdempotencyStore,
+  type RedisLike,
+} from "../src/idempotencyStore.js";
+
+/**
+ * Minimal in-memory stand-in for the node-redis client.
+ */
+function fakeRedis(initial: Record<string, string> = {}) {
+  const data = new Map(Object.entries(initial));
+  const setCalls: Array<{ key: string; ex: number }> = [];
+  const client: RedisLike = {
+    async set(key, value, options) {
+      data.set(key, value);
+      setCalls.push({ key, ex: options.EX });
+      return "OK";
+    },
+    async del(keys) {
+      for (const k of keys) data.delete(k);
+      return keys.length;
+    },
+    async *scanIterator({ MATCH }) {
+      const prefix = MATCH.replace(/\*$/, "");
+      for (const key of data.keys()) if (key.startsWith(prefix)) yield key;
+    },
+  };
+  return { client, data, setCalls };
+}
+
+describe("MemoryIdempotencyStore", () => {
+  it("expires entries after the TTL", () => {
+    let now = 1_000;
+    const store = new MemoryIdempotencyStore({ ttlMs: 100, now: () => now });
+
+    store.add("E1");
+    expect(store.has("E1")).toBe(true);
+
+    now += 100;
+    expect(store.has("E1")).toBe(false);
+    expect(store.keys()).toEqual([]);
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", () => {
+    const store = new MemoryIdempotencyStore({ maxEntries: 2 });
+
+    store.add("E1");
+    store.add("E2");
+    store.has("E1"); // touch E1, so E2 is now least recently used
+    store.add("E3");
+
+    expect(store.keys()).toEqual(["E1", "E3"]);
+    expect(store.has("E2")).toBe(false);
+  });
+
+  it("lets an expired event be applied again by the engine", () => {
+    let now = 0;
+    const order = { id: "O1", quantity: 10, filledQuantity: 0, status: "OPEN" as const };
+    const engine = new TradingEngine(order, { balance: 100 }, {
+      idempotencyStore: new MemoryIdempotencyStore({ ttlMs: 50, now: () => now }),
+    });
+    const evt = { type: "execution" as const, eventId: "E1", orderId: "O1", executedQuantity: 1 };
+
+    expect(engine.applyExecution(evt).applied).toBe(true);
+    expect(engine.applyExecution(evt).reason).toBe("duplicate_event");
+
+    now = 50;
+    expect(engine.applyExecution(evt).applied).toBe(true);
+    expect(order.filledQuantity).toBe(2);
+  });
+});
+
+describe("RedisIdempotencyStore", () => {
+  it("writes execution:<eventId> keys with a TTL", async () => {
+    const { client, data, setCalls } = fakeRedis();
+    const store = new RedisIdempotencyStore(client, { ttlSeconds: 60 });
+
+    store.add("E1");
+    await store.flush();
+
+    expect(data.get("execution:E1")).toBe("1");
+    expect(setCalls).toEqual([{ key: "execution:E1", ex: 60 }]);
+  });
+
+  it("survives a restart by hydrating from Redis", async () => {
+    const { client } = fakeRedis({ "execution:E1": "1", "other:X": "1" });
+    const store = new RedisIdempotencyStore(client);
+
+    expect(await store.hydrate()).toBe(1);
+
+    const order = { id: "O1", quantity: 10, filledQuantity: 0, status: "OPEN" as const };
+    const engine = new TradingEngine(order, { balance: 100 }, { idempotencyStore: store });
+
+    const result = engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 5 });
+    expect(result).toMatchObject({ applied: false, reason: "duplicate_event" });
+    expect(order.filledQuantity).toBe(0);
+  });
+
+  it("clears local entries and their Redis keys", async () => {
+    const { client, data } = fakeRedis();
+    const store = new RedisIdempotencyStore(client);
+
+    store.add("E1");
+    store.add("E2");
+    store.clear();
+    await store.flush();
+
+    expect(store.keys()).toEqual([]);
+    expect(data.size).toBe(0);
+  });
+
+  it("reports background write failures without throwing", async () => {
+    const errors: unknown[] = [];
+    const { client } = fakeRedis();
+    client.set = async () => {
+      throw new Error("redis down");
+    };
+    const store = new RedisIdempotencyStore(client, { onError: (e) => errors.push(e) });
+
+    store.add("E1");
+    await store.flush();
+
+    expect(store.has("E1")).toBe(true);
+    expect(errors).toHaveLength(1);
+  });
+});
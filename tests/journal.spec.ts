@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { TradingEngine } from "../src/engine.js";
+import { FileJournal, FileSnapshotStore, MemoryJournal } from "../src/journal.js";
+
+/**
+ * Event-sourcing tests: every execution is journaled and engine state
+ * can be rebuilt from the journal (optionally starting from a snapshot).
+ */
+describe("TradingEngine journal, replay and snapshots", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "engine-journal-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function runScenario(engine: TradingEngine) {
+    engine.createAccount("A1", 1000);
+    engine.createOrder({ id: "O1", quantity: 10, accountId: "A1" });
+    engine.createOrder({ id: "O2", quantity: 5, accountId: "A1" });
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4, price: 10 });
+    engine.applyExecution({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4, price: 10 }); // duplicate
+    engine.applyExecution({ type: "execution", eventId: "E2", orderId: "O9", executedQuantity: 1 });            // unknown order
+    engine.cancelOrder("O2");
+    engine.applyExecution({ type: "execution", eventId: "E3", orderId: "O1", executedQuantity: 20, price: 12 }); // capped
+  }
+
+  it("journals accepted and rejected executions with their results", () => {
+    const journal = new MemoryJournal();
+    runScenario(new TradingEngine(undefined, undefined, { journal }));
+
+    const executions = journal.read().filter((e) => e.type === "execution");
+    expect(executions.map((e) => e.result)).toEqual([
+      { applied: true, effectiveQuantity: 4, remainingQuantity: 6, status: "PARTIALLY_FILLED" },
+      { applied: false, reason: "duplicate_event", effectiveQuantity: 0 },
+      { applied: false, reason: "unknown_order", effectiveQuantity: 0 },
+      { applied: true, reason: "capped_overfill", effectiveQuantity: 6, remainingQuantity: 0, status: "FILLED" },
+    ]);
+    expect(journal.read().map((e) => e.seq)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it("rebuilds identical state by replaying an NDJSON file journal", () => {
+    const file = path.join(dir, "engine.ndjson");
+    const original = new TradingEngine(undefined, undefined, { journal: new FileJournal(file) });
+    runScenario(original);
+
+    const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(8);
+    expect(JSON.parse(lines[0] ?? "")).toMatchObject({ seq: 1, type: "account_added" });
+
+    const rebuilt = TradingEngine.restore({ entries: new FileJournal(file).read() });
+    expect(rebuilt.listOrders()).toEqual(original.listOrders());
+    expect(rebuilt.listAccounts()).toEqual(original.listAccounts());
+    expect(rebuilt.getProcessedEventIds()).toEqual(original.getProcessedEventIds());
+  });
+
+  it("takes periodic snapshots and restores from snapshot + journal tail", () => {
+    const journal = new FileJournal(path.join(dir, "engine.ndjson"));
+    const snapshots = new FileSnapshotStore(path.join(dir, "snapshot.json"));
+    const original = new TradingEngine(undefined, undefined, { journal, snapshotStore: snapshots, snapshotEvery: 5 });
+    runScenario(original);
+
+    const snapshot = snapshots.load();
+    expect(snapshot?.seq).toBe(5);
+
+    const rebuilt = TradingEngine.restore({ snapshot, entries: journal.read() });
+    expect(rebuilt.listOrders()).toEqual(original.listOrders());
+    expect(rebuilt.getAccount("A1")?.balance).toBe(1000 - 40 - 72);
+  });
+
+  it("continues the sequence when the journal file is reopened", () => {
+    const file = path.join(dir, "engine.ndjson");
+    runScenario(new TradingEngine(undefined, undefined, { journal: new FileJournal(file) }));
+
+    const reopened = new FileJournal(file);
+    const engine = TradingEngine.restore({ entries: reopened.read() }, { journal: reopened });
+    engine.applyExecution({ type: "execution", eventId: "E4", orderId: "O1", executedQuantity: 1 });
+
+    expect(reopened.read().map((e) => e.seq)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it("ignores and drops a partially written last line", () => {
+    const file = path.join(dir, "engine.ndjson");
+    runScenario(new TradingEngine(undefined, undefined, { journal: new FileJournal(file) }));
+    fs.appendFileSync(file, '{"type":"execution","ev');
+
+    const reopened = new FileJournal(file);
+    expect(reopened.lastSeq()).toBe(8);
+    reopened.append({ type: "processed_events_cleared" });
+    expect(reopened.read().at(-1)?.seq).toBe(9);
+  });
+
+  it("throws when replay diverges from the recorded result", () => {
+    const journal = new MemoryJournal();
+    runScenario(new TradingEngine(undefined, undefined, { journal }));
+
+    const entries = journal.read();
+    const first = entries.find((e) => e.type === "execution");
+    if (first?.type === "execution") first.result = { applied: false, reason: "already_filled", effectiveQuantity: 0 };
+
+    expect(() => TradingEngine.restore({ entries })).toThrow(/Journal replay diverged at seq 4/);
+  });
+});
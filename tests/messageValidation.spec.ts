@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseInboundMessage,
+  parseOutboundMessage,
+  validateInboundMessage,
+  validateOutboundMessage,
+} from "../src/messageValidation.js";
+
+describe("Inbound message validation", () => {
+  it("accepts each supported message type", () => {
+    for (const msg of [
+      { type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 3, price: 10.5, fee: 0 },
+      { type: "hello", ok: true },
+      { type: "ack", message: "ping" },
+      { type: "heartbeat", timestamp: 1700000000000 },
+      { type: "subscription_ack", orderIds: ["O1"], accountIds: [] },
+      { type: "replay_unavailable", fromSequence: 1, oldestSequence: 5 },
+    ]) {
+      expect(validateInboundMessage(msg)).toEqual({ ok: true, value: msg });
+    }
+  });
+
+  it("reports every invalid execution field with its path", () => {
+    const result = validateInboundMessage({ type: "execution", orderId: 42, executedQuantity: "5", price: null });
+
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        { path: "$.eventId", message: "is required" },
+        { path: "$.orderId", message: "expected non-empty string, got number" },
+        { path: "$.executedQuantity", message: "expected finite number, got string" },
+        { path: "$.price", message: "expected finite number, got null" },
+      ],
+    });
+  });
+
+  it("rejects unknown or missing message types", () => {
+    expect(validateInboundMessage({ type: "cancellation" })).toMatchObject({
+      ok: false,
+      issues: [{ path: "$.type", message: expect.stringContaining('unknown message type "cancellation"') }],
+    });
+    expect(validateInboundMessage({})).toEqual({ ok: false, issues: [{ path: "$.type", message: "is required" }] });
+    expect(validateInboundMessage([1])).toEqual({ ok: false, issues: [{ path: "$", message: "expected object, got array" }] });
+  });
+
+  it("validates optional fields on control messages", () => {
+    expect(validateInboundMessage({ type: "hello", ok: "yes" })).toEqual({
+      ok: false,
+      issues: [{ path: "$.ok", message: "expected boolean, got string" }],
+    });
+    expect(validateInboundMessage({ type: "heartbeat", timestamp: Number.POSITIVE_INFINITY })).toEqual({
+      ok: false,
+      issues: [{ path: "$.timestamp", message: "expected finite number, got Infinity" }],
+    });
+  });
+
+  it("reports malformed JSON instead of throwing", () => {
+    const result = parseInboundMessage("{bad");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.issues[0]?.message).toMatch(/^invalid JSON:/);
+  });
+});
+
+describe("Client message validation", () => {
+  it("accepts replay, subscription and ack messages", () => {
+    for (const msg of [
+      { type: "replay", fromSequence: 4 },
+      { type: "subscribe", orderIds: ["O1"], accountIds: ["ACC1"] },
+      { type: "unsubscribe", accountIds: [] },
+      { type: "ack", eventId: "E1", sequence: 3 },
+    ]) {
+      expect(validateOutboundMessage(msg)).toEqual({ ok: true, value: msg });
+    }
+  });
+
+  it("reports invalid topic lists and missing replay sequence", () => {
+    expect(validateOutboundMessage({ type: "subscribe", orderIds: ["O1", 2], accountIds: "ACC1" })).toEqual({
+      ok: false,
+      issues: [
+        { path: "$.orderIds[1]", message: "expected non-empty string, got number" },
+        { path: "$.accountIds", message: "expected array of strings, got string" },
+      ],
+    });
+    expect(parseOutboundMessage('{"type":"replay"}')).toEqual({
+      ok: false,
+      issues: [{ path: "$.fromSequence", message: "is required" }],
+    });
+  });
+});
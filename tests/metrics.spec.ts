@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { Counter, Histogram, MetricsRegistry, createConsumerMetrics } from "../src/metrics.js";
+import { createServer } from "../src/server.js";
+import { startWsServer } from "../src/wsServer.js";
+import { connectAndConsume } from "../src/wsClientConsumer.js";
+import { TradingEngine } from "../src/engine.js";
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+describe("metrics - Prometheus text format", () => {
+  it("renders counters with and without labels", () => {
+    const plain = new Counter("things_total", "Things seen");
+    expect(plain.render()).toEqual(["# HELP things_total Things seen", "# TYPE things_total counter", "things_total 0"]);
+
+    const byReason = new Counter("rejected_total", "Rejections");
+    byReason.inc({ reason: "duplicate_event" });
+    byReason.inc({ reason: "duplicate_event" });
+    byReason.inc({ reason: 'odd "quoted"\nreason' });
+    expect(byReason.get({ reason: "duplicate_event" })).toBe(2);
+    expect(byReason.render().slice(2)).toEqual([
+      'rejected_total{reason="duplicate_event"} 2',
+      'rejected_total{reason="odd \\"quoted\\"\\nreason"} 1',
+    ]);
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const h = new Histogram("latency_seconds", "Latency", [0.01, 0.1, 1]);
+    [0.005, 0.05, 0.05, 2].forEach((v) => h.observe(v));
+
+    expect(h.render()).toEqual([
+      "# HELP latency_seconds Latency",
+      "# TYPE latency_seconds histogram",
+      'latency_seconds_bucket{le="0.01"} 1',
+      'latency_seconds_bucket{le="0.1"} 3',
+      'latency_seconds_bucket{le="1"} 3',
+      'latency_seconds_bucket{le="+Inf"} 4',
+      "latency_seconds_sum 2.105",
+      "latency_seconds_count 4",
+    ]);
+  });
+
+  it("refuses duplicate metric names", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("a_total", "A");
+    expect(() => registry.histogram("a_total", "again")).toThrow("Metric already registered: a_total");
+  });
+});
+
+describe("metrics - consumer instrumentation", () => {
+  it("counts received, applied, rejected-by-reason and malformed messages and observes latency", async () => {
+    const server = startWsServer(0);
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const metrics = createConsumerMetrics();
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, { metrics });
+    await client.waitOpen();
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 2, timestamp: Date.now() - 50 });
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 2 });
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "nope", executedQuantity: 2 });
+    server.wss.clients.forEach((ws) => ws.send("not json"));
+    await sleep(30);
+
+    expect(metrics.received.get()).toBe(5); // hello, three events, one malformed frame
+    expect(metrics.applied.get()).toBe(1);
+    expect(metrics.rejected.get({ reason: "duplicate_event" })).toBe(1);
+    expect(metrics.rejected.get({ reason: "unknown_order" })).toBe(1);
+    expect(metrics.malformed.get()).toBe(1);
+    expect(metrics.latency.getCount()).toBe(3);
+    expect(metrics.latency.getSum()).toBeGreaterThanOrEqual(0.05);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("serves the registry on GET /metrics", async () => {
+    const metrics = createConsumerMetrics();
+    metrics.rejected.inc({ reason: "already_filled" });
+    const server = createServer({ metrics: metrics.registry });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const addr = server.address();
+    const port = addr && typeof addr === "object" ? addr.port : 0;
+
+    try {
+      const r = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(r.status).toBe(200);
+      expect(r.headers.get("content-type")).toBe("text/plain; version=0.0.4");
+      const body = await r.text();
+      expect(body).toContain('consumer_executions_rejected_total{reason="already_filled"} 1');
+      expect(body).toContain('consumer_execution_latency_seconds_bucket{le="+Inf"} 0');
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
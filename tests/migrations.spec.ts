@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { loadMigrations } from "../src/migrations.js";
+
+describe("migration files", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "engine-migrations-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(files: Record<string, string>) {
+    for (const [name, sql] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), sql);
+  }
+
+  it("pairs up/down files and orders them by version", () => {
+    write({
+      "010_later.up.sql": "CREATE TABLE b ();",
+      "010_later.down.sql": "DROP TABLE b;",
+      "002_first.up.sql": "CREATE TABLE a ();",
+      "002_first.down.sql": "DROP TABLE a;",
+    });
+
+    expect(loadMigrations(dir)).toEqual([
+      { version: 2, name: "first", up: "CREATE TABLE a ();", down: "DROP TABLE a;" },
+      { version: 10, name: "later", up: "CREATE TABLE b ();", down: "DROP TABLE b;" },
+    ]);
+  });
+
+  it("rejects a missing half, duplicate versions and stray files", () => {
+    write({ "001_a.up.sql": "" });
+    expect(() => loadMigrations(dir)).toThrow("Migration 1_a needs both .up.sql and .down.sql");
+
+    write({ "001_a.down.sql": "", "001_b.up.sql": "" });
+    expect(() => loadMigrations(dir)).toThrow("Duplicate migration version 1: a, b");
+
+    fs.rmSync(path.join(dir, "001_b.up.sql"));
+    write({ "notes.txt": "" });
+    expect(() => loadMigrations(dir)).toThrow("Unrecognised migration file: notes.txt");
+  });
+
+  it("ships a complete set for the mock engine", () => {
+    expect(loadMigrations().map((m) => `${m.version}_${m.name}`)).toEqual([
+      "1_initial_schema",
+      "2_order_constraints",
+      "3_executions",
+      "4_execution_rejections",
+      "5_order_accounts",
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import http from "node:http";
+import { WebSocket, WebSocketServer } from "ws";
+import { shutdownGracefully, shutdownTimeoutFromEnv, WS_CLOSE_GOING_AWAY } from "../src/shutdown.js";
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+async function listen(handler: http.RequestListener) {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const addr = server.address();
+  return { server, port: addr && typeof addr === "object" ? addr.port : 0 };
+}
+
+describe("shutdown - SHUTDOWN_TIMEOUT_MS", () => {
+  it("defaults to 10s and rejects non-positive values", () => {
+    expect(shutdownTimeoutFromEnv({})).toBe(10_000);
+    expect(shutdownTimeoutFromEnv({ SHUTDOWN_TIMEOUT_MS: "2500" })).toBe(2500);
+    expect(() => shutdownTimeoutFromEnv({ SHUTDOWN_TIMEOUT_MS: "0" })).toThrow("Invalid SHUTDOWN_TIMEOUT_MS: 0");
+  });
+});
+
+describe("shutdown - drain", () => {
+  it("finishes in-flight requests, closes kept-alive connections and refuses new ones", async () => {
+    const { server, port } = await listen((_req, res) => {
+      setTimeout(() => res.end("done"), 100);
+    });
+    const agent = new http.Agent({ keepAlive: true });
+    const inFlight = new Promise<{ body: string; connection: string | undefined }>((resolve) => {
+      http.get({ port, agent }, (res) => {
+        let body = "";
+        res.on("data", (c) => (body += String(c)));
+        res.on("end", () => resolve({ body, connection: res.headers.connection }));
+      });
+    });
+    await sleep(20);
+
+    const result = await shutdownGracefully({ httpServers: [server], timeoutMs: 2000, log: () => {} });
+
+    expect(await inFlight).toEqual({ body: "done", connection: "keep-alive" });
+    expect(result).toMatchObject({ completed: true, failedSteps: [] });
+    expect(result.elapsedMs).toBeLessThan(1000); // not the 5s keep-alive timeout
+    await expect(fetch(`http://127.0.0.1:${port}/`)).rejects.toThrow();
+    agent.destroy();
+  });
+
+  it("sends WS clients a going-away close frame with the reason", async () => {
+    const { server, port } = await listen((_req, res) => res.end());
+    const wss = new WebSocketServer({ server });
+    const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    await new Promise((r) => ws.once("open", r));
+    const closed = new Promise<{ code: number; reason: string }>((resolve) => {
+      ws.once("close", (code, reason) => resolve({ code, reason: reason.toString() }));
+    });
+
+    const result = await shutdownGracefully({
+      httpServers: [server],
+      wsServers: [wss],
+      closeReason: "engine restarting",
+      timeoutMs: 2000,
+      log: () => {},
+    });
+
+    expect(await closed).toEqual({ code: WS_CLOSE_GOING_AWAY, reason: "engine restarting" });
+    expect(result.completed).toBe(true);
+  });
+
+  it("runs flush steps in order after the drain and reports failures", async () => {
+    const { server } = await listen((_req, res) => res.end());
+    const ran: string[] = [];
+
+    const result = await shutdownGracefully({
+      httpServers: [server],
+      timeoutMs: 2000,
+      log: () => {},
+      flush: [
+        { name: "journal", run: () => void ran.push(`journal:${server.listening}`) },
+        { name: "metrics", run: () => Promise.reject(new Error("disk full")) },
+        { name: "database", run: async () => void ran.push("database") },
+      ],
+    });
+
+    expect(ran).toEqual(["journal:false", "database"]);
+    expect(result).toMatchObject({ completed: false, failedSteps: ["metrics"] });
+  });
+
+  it("force-closes connections still open at the deadline", async () => {
+    const { server, port } = await listen(() => {
+      // never answers
+    });
+    const request = new Promise<string>((resolve) => {
+      http.get({ port }).on("error", (e) => resolve(e.message));
+    });
+    await sleep(20);
+    const logs: string[] = [];
+
+    const result = await shutdownGracefully({
+      httpServers: [server],
+      timeoutMs: 100,
+      log: (m) => logs.push(m),
+      flush: [{ name: "never", run: () => void logs.push("flushed") }],
+    });
+
+    expect(result.completed).toBe(false);
+    expect(result.elapsedMs).toBeLessThan(1000);
+    expect(await request).toBe("socket hang up");
+    await sleep(20);
+    expect(logs).toEqual(["Shutdown deadline of 100ms exceeded; closing remaining connections"]);
+  });
+});
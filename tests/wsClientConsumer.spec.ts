@@ -0,0 +1,799 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TradingEngine } from "../src/engine.js";
+import WebSocket from "ws";
+import { startWsServer } from "../src/wsServer.js";
+import { createConsumerMetrics } from "../src/metrics.js";
+import { computeBackoff, connectAndConsume, type ConnectionState, type InvalidMessage } from "../src/wsClientConsumer.js";
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * Resolve once `condition` holds, checking after each round of I/O; unlike
+ * sleep() it keeps working under fake timers.
+ */
+async function until(condition: () => boolean) {
+  while (!condition()) await new Promise((r) => setImmediate(r));
+}
+
+/**
+ * Resolve on the next transition into `state`.
+ */
+function nextState(client: ReturnType<typeof connectAndConsume>, state: ConnectionState) {
+  return new Promise<void>((resolve) => {
+    const onState = (change: { to: ConnectionState }) => {
+      if (change.to !== state) return;
+      client.events.off("state", onState);
+      resolve();
+    };
+    client.events.on("state", onState);
+  });
+}
+
+describe("connectAndConsume - invalid message reporting", () => {
+  it("routes invalid messages to invalid_message instead of the engine", async () => {
+    const server = startWsServer(0);
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    const order = engine.createOrder({ id: "O1", quantity: 10 });
+
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine);
+    const invalid: InvalidMessage[] = [];
+    client.events.on("invalid_message", (m) => invalid.push(m));
+    await client.waitOpen();
+
+    server.wss.clients.forEach((ws) => {
+      ws.send(JSON.stringify({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: "5" }));
+      ws.send("not json");
+      ws.send(JSON.stringify({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 2 }));
+    });
+    await sleep(50);
+
+    expect(order.filledQuantity).toBe(2);
+    expect(invalid.map((m) => m.issues[0]?.path)).toEqual(["$.executedQuantity", "$"]);
+    expect(invalid[1]?.raw).toBe("not json");
+
+    await client.close();
+    await server.close();
+  });
+
+  it("reports engine exceptions as apply_error", async () => {
+    const server = startWsServer(0);
+    const engine = new TradingEngine();
+    engine.applyExecution = () => {
+      throw new Error("engine corrupted");
+    };
+
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine);
+    const errors: unknown[] = [];
+    client.events.on("apply_error", ({ error }) => errors.push(error));
+    await client.waitOpen();
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+    await sleep(50);
+
+    expect(errors).toEqual([new Error("engine corrupted")]);
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("connectAndConsume - reconnection", () => {
+  const backoff = { initialDelayMs: 100, maxDelayMs: 1_000, multiplier: 2, jitter: 0.5, maxAttempts: Infinity };
+
+  it("computes capped exponential backoff with jitter", () => {
+    expect([0, 1, 2, 3, 4, 5].map((n) => computeBackoff(n, backoff, () => 0))).toEqual([100, 200, 400, 800, 1000, 1000]);
+    expect(computeBackoff(1, backoff, () => 1)).toBe(100); // up to half the delay removed
+  });
+
+  it("reconnects after a dropped connection and keeps consuming", async () => {
+    const server = startWsServer(0);
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    const order = engine.createOrder({ id: "O1", quantity: 10 });
+
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, {
+      reconnect: { initialDelayMs: 10, jitter: 0 },
+    });
+    const states: ConnectionState[] = [];
+    client.events.on("state", (change) => states.push(change.to));
+    await client.waitOpen();
+
+    // Simulate a network drop
+    const reopened = nextState(client, "open");
+    server.wss.clients.forEach((ws) => ws.terminate());
+    await reopened;
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 3 });
+    await sleep(50);
+
+    expect(states).toEqual(["open", "reconnecting", "connecting", "open"]);
+    expect(order.filledQuantity).toBe(3);
+
+    await client.close();
+    expect(client.getState()).toBe("closed");
+    await server.close();
+  });
+
+  it("asks the server to replay from the sequence after the last one processed", async () => {
+    const server = startWsServer(0);
+    const requests: unknown[] = [];
+    server.wss.on("connection", (ws) => ws.on("message", (data) => requests.push(JSON.parse(data.toString()))));
+
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, {
+      reconnect: { initialDelayMs: 10, jitter: 0 },
+    });
+    await client.waitOpen();
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 1 });
+    await sleep(30);
+    expect(client.getLastSequence()).toBe(2);
+
+    const reopened = nextState(client, "open");
+    server.wss.clients.forEach((ws) => ws.terminate());
+    await reopened;
+    await sleep(20);
+
+    expect(requests.filter((r) => (r as { type: string }).type === "replay")).toEqual([{ type: "replay", fromSequence: 3 }]);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("gives up after maxAttempts and rejects waitOpen", async () => {
+    const server = startWsServer(0);
+    const port = server.getPort();
+    await server.close(); // nothing listens on this port anymore
+
+    const client = connectAndConsume(`ws://127.0.0.1:${port}`, new TradingEngine(), {
+      reconnect: { initialDelayMs: 5, maxAttempts: 2 },
+    });
+    const states: ConnectionState[] = [];
+    client.events.on("state", (change) => states.push(change.to));
+
+    await expect(client.waitOpen()).rejects.toThrow(/ECONNREFUSED/);
+    expect(states).toEqual(["reconnecting", "connecting", "reconnecting", "connecting", "closed"]);
+  });
+
+  it("does not reconnect when disabled", async () => {
+    const server = startWsServer(0);
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, new TradingEngine(), { reconnect: false });
+    await client.waitOpen();
+
+    server.wss.clients.forEach((ws) => ws.terminate());
+    await sleep(20);
+
+    expect(client.getState()).toBe("closed");
+    await server.close();
+  });
+});
+
+describe("heartbeat and dead-connection detection", () => {
+  it("server terminates clients that stop answering pings", async () => {
+    const server = startWsServer(0, { heartbeatIntervalMs: 20 });
+    const silent = new WebSocket(`ws://127.0.0.1:${server.getPort()}`, { autoPong: false });
+    const responsive = new WebSocket(`ws://127.0.0.1:${server.getPort()}`);
+    await Promise.all([silent, responsive].map((ws) => new Promise((r) => ws.once("open", r))));
+    expect(server.getStats()).toMatchObject({ live: 2, dead: 0 });
+
+    await new Promise((r) => silent.once("close", r));
+    await sleep(20);
+
+    expect(server.getStats()).toMatchObject({ live: 1, dead: 1 });
+    expect(responsive.readyState).toBe(WebSocket.OPEN);
+
+    responsive.close();
+    await server.close();
+  });
+
+  it("client drops an idle connection and reconnects", async () => {
+    const server = startWsServer(0, { heartbeatIntervalMs: 0 });
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, new TradingEngine(), {
+      idleTimeoutMs: 30,
+      reconnect: { initialDelayMs: 10, jitter: 0 },
+    });
+    await client.waitOpen();
+
+    const reconnecting = new Promise<Error | undefined>((resolve) =>
+      client.events.once("state", (change) => resolve(change.error))
+    );
+    expect((await reconnecting)?.message).toMatch(/No message or ping received for 30ms/);
+    await nextState(client, "open");
+
+    await client.close();
+    await server.close();
+  });
+
+  it("server pings keep an otherwise quiet client connected", async () => {
+    const server = startWsServer(0, { heartbeatIntervalMs: 15 });
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, new TradingEngine(), {
+      idleTimeoutMs: 60,
+    });
+    await client.waitOpen();
+    const states: ConnectionState[] = [];
+    client.events.on("state", (change) => states.push(change.to));
+
+    await sleep(150);
+
+    expect(states).toEqual([]);
+    expect(server.getStats()).toMatchObject({ live: 1, dead: 0 });
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("topic subscriptions", () => {
+  /**
+   * Raw client recording every message it receives.
+   */
+  async function rawClient(port: number) {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+    const received: Array<{ type: string; eventId?: string }> = [];
+    ws.on("message", (data) => received.push(JSON.parse(data.toString())));
+    await new Promise((r) => ws.once("open", r));
+    return { ws, received, eventIds: () => received.flatMap((m) => (m.eventId ? [m.eventId] : [])) };
+  }
+
+  it("routes events to matching subscribers and acknowledges changes", async () => {
+    const server = startWsServer(0);
+    const byOrder = await rawClient(server.getPort());
+    const byAccount = await rawClient(server.getPort());
+    const firehose = await rawClient(server.getPort());
+
+    byOrder.ws.send(JSON.stringify({ type: "subscribe", orderIds: ["O1"] }));
+    byAccount.ws.send(JSON.stringify({ type: "subscribe", accountIds: ["ACC2"] }));
+    await sleep(20);
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", accountId: "ACC1", executedQuantity: 1 });
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "O2", accountId: "ACC2", executedQuantity: 1 });
+    server.broadcast({ type: "execution", eventId: "E3", orderId: "O3", executedQuantity: 1 });
+    await sleep(20);
+
+    expect(byOrder.received[0]).toEqual({ type: "hello", ok: true, streamId: server.getStreamId() });
+    expect(byOrder.received[1]).toEqual({ type: "subscription_ack", orderIds: ["O1"], accountIds: [] });
+    expect(byOrder.eventIds()).toEqual(["E1"]);
+    expect(byAccount.eventIds()).toEqual(["E2"]);
+    expect(firehose.eventIds()).toEqual(["E1", "E2", "E3"]);
+
+    byOrder.ws.send(JSON.stringify({ type: "unsubscribe", orderIds: ["O1"] }));
+    await sleep(20);
+    server.broadcast({ type: "execution", eventId: "E4", orderId: "O1", executedQuantity: 1 });
+    await sleep(20);
+
+    expect(byOrder.received.at(-1)).toEqual({ type: "subscription_ack", orderIds: [], accountIds: [] });
+    expect(byOrder.eventIds()).toEqual(["E1"]);
+
+    for (const c of [byOrder, byAccount, firehose]) c.ws.close();
+    await server.close();
+  });
+
+  it("ignores malformed subscription messages", async () => {
+    const server = startWsServer(0);
+    const client = await rawClient(server.getPort());
+
+    client.ws.send(JSON.stringify({ type: "subscribe", orderIds: "O1" }));
+    client.ws.send("not json");
+    await sleep(20);
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O2", executedQuantity: 1 });
+    await sleep(20);
+
+    expect(client.received).toEqual([
+      { type: "hello", ok: true, streamId: server.getStreamId() },
+      { type: "execution", eventId: "E1", orderId: "O2", executedQuantity: 1, sequence: 1, timestamp: expect.any(Number) },
+    ]);
+
+    client.ws.close();
+    await server.close();
+  });
+
+  it("consumer subscribes again after reconnecting", async () => {
+    const server = startWsServer(0);
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    engine.createOrder({ id: "O2", quantity: 10 });
+
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, {
+      reconnect: { initialDelayMs: 10, jitter: 0 },
+    });
+    await client.waitOpen();
+    client.subscribe({ orderIds: ["O1"] });
+    await sleep(20);
+
+    const reopened = nextState(client, "open");
+    server.wss.clients.forEach((ws) => ws.terminate());
+    await reopened;
+    await sleep(20);
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 2 });
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "O2", executedQuantity: 2 });
+    await sleep(20);
+
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(2);
+    expect(engine.getOrder("O2")?.filledQuantity).toBe(0);
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("stream sequencing and replay", () => {
+  it("stamps broadcast events with increasing sequence numbers", async () => {
+    const server = startWsServer(0);
+
+    const first = server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1, sequence: 99 });
+    const second = server.broadcast({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 1 });
+
+    expect([first.sequence, second.sequence]).toEqual([1, 2]);
+    expect(server.getLastSequence()).toBe(2);
+    await server.close();
+  });
+
+  it("detects a gap and recovers the missed events through a replay", async () => {
+    const server = startWsServer(0);
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine);
+    const gaps: Array<{ fromSequence: number; toSequence: number }> = [];
+    client.events.on("gap", (gap) => gaps.push(gap));
+    await client.waitOpen();
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+    await sleep(20);
+
+    // Simulate lost messages: sequences 2 and 3 are buffered but never sent
+    const clients = [...server.wss.clients];
+    server.wss.clients.clear();
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 2 });
+    server.broadcast({ type: "execution", eventId: "E3", orderId: "O1", executedQuantity: 3 });
+    clients.forEach((ws) => server.wss.clients.add(ws));
+
+    server.broadcast({ type: "execution", eventId: "E4", orderId: "O1", executedQuantity: 4 });
+    await sleep(50);
+
+    expect(gaps).toEqual([{ fromSequence: 2, toSequence: 3 }]);
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(10);
+    expect(client.getLastSequence()).toBe(4);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("starts over from sequence 1 when the server restarted with a new stream", async () => {
+    const first = startWsServer(0, { streamId: "run-1" });
+    const port = first.getPort();
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+
+    const client = connectAndConsume(`ws://127.0.0.1:${port}`, engine, { reconnect: { initialDelayMs: 20, jitter: 0 } });
+    const resets: Array<{ previousStreamId: string; streamId: string }> = [];
+    client.events.on("stream_reset", (reset) => resets.push(reset));
+    await client.waitOpen();
+    for (let i = 1; i <= 3; i++) {
+      first.broadcast({ type: "execution", eventId: `E${i}`, orderId: "O1", executedQuantity: 1 });
+    }
+    await sleep(30);
+    expect([client.getStreamId(), client.getLastSequence()]).toEqual(["run-1", 3]);
+
+    // Restart: same port, counter back at 0, two fills before the consumer is back
+    first.wss.clients.forEach((ws) => ws.terminate());
+    await first.close();
+    const second = startWsServer(port, { streamId: "run-2" });
+    second.broadcast({ type: "execution", eventId: "E4", orderId: "O1", executedQuantity: 2 });
+    second.broadcast({ type: "execution", eventId: "E5", orderId: "O1", executedQuantity: 2 });
+    await nextState(client, "open");
+    await sleep(50);
+
+    expect(resets).toEqual([{ previousStreamId: "run-1", streamId: "run-2" }]);
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(7);
+    expect([client.getStreamId(), client.getLastSequence()]).toEqual(["run-2", 2]);
+
+    await client.close();
+    await second.close();
+  });
+
+  it("keeps a persisted position when the stream id matches", async () => {
+    const server = startWsServer(0, { streamId: "run-1" });
+    for (let i = 1; i <= 3; i++) {
+      server.broadcast({ type: "execution", eventId: `E${i}`, orderId: "O1", executedQuantity: 1 });
+    }
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, {
+      resumeFromSequence: 2,
+      resumeStreamId: "run-1",
+    });
+    await client.waitOpen();
+    await sleep(30);
+
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(1); // only sequence 3
+    expect(client.getLastSequence()).toBe(3);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("reports replay_unavailable when the requested range was evicted", async () => {
+    const server = startWsServer(0, { replayBufferSize: 2 });
+    for (let i = 1; i <= 4; i++) {
+      server.broadcast({ type: "execution", eventId: `E${i}`, orderId: "O1", executedQuantity: 1 });
+    }
+
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, { resumeFromSequence: 0 });
+    const unavailable: Array<{ fromSequence: number; oldestSequence: number }> = [];
+    client.events.on("replay_unavailable", (u) => unavailable.push(u));
+    await client.waitOpen();
+    await sleep(30);
+
+    expect(unavailable).toEqual([{ fromSequence: 1, oldestSequence: 3 }]);
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(2);
+    expect(client.getLastSequence()).toBe(4);
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("backpressure and slow consumers", () => {
+  /**
+   * Connect a raw client and make the server treat it as slow by faking
+   * its socket buffer; returns received events and a switch to speed it up.
+   */
+  async function slowClient(server: ReturnType<typeof startWsServer>) {
+    const connected = new Promise<WebSocket>((resolve) => server.wss.once("connection", resolve));
+    const ws = new WebSocket(`ws://127.0.0.1:${server.getPort()}`);
+    const received: Array<{ type: string; eventId?: string }> = [];
+    ws.on("message", (data) => received.push(JSON.parse(data.toString())));
+    const serverSide = await connected;
+    await new Promise((r) => ws.once("open", r));
+
+    let buffered = Number.MAX_SAFE_INTEGER;
+    Object.defineProperty(serverSide, "bufferedAmount", { get: () => buffered });
+    return {
+      ws,
+      eventIds: () => received.flatMap((m) => (m.eventId ? [m.eventId] : [])),
+      dropNotices: () => received.filter((m) => m.type === "events_dropped"),
+      catchUp: () => {
+        buffered = 0;
+      },
+    };
+  }
+
+  const fill = (eventId: string, orderId: string) =>
+    ({ type: "execution", eventId, orderId, executedQuantity: 1 }) as const;
+
+  it("drops the oldest queued messages and reports them once the client catches up", async () => {
+    const server = startWsServer(0, { backpressure: { maxQueuedMessages: 2 } });
+    const client = await slowClient(server);
+
+    ["E1", "E2", "E3", "E4"].forEach((id) => server.broadcast(fill(id, "O1")));
+    await sleep(30);
+    expect(client.dropNotices()).toEqual([]); // not while still behind
+
+    client.catchUp();
+    server.broadcast(fill("E5", "O1"));
+    await sleep(30);
+
+    expect(client.eventIds()).toEqual(["E3", "E4", "E5"]);
+    expect(client.dropNotices()).toEqual([{ type: "events_dropped", fromSequence: 1, toSequence: 2 }]);
+    expect(server.getStats()).toMatchObject({ droppedMessages: 2, slowConsumerDisconnects: 0 });
+
+    client.ws.close();
+    await server.close();
+  });
+
+  it("coalesces queued copies of the same event but never distinct fills", async () => {
+    const server = startWsServer(0, { backpressure: { maxQueuedMessages: 2, policy: "coalesce" } });
+    const client = await slowClient(server);
+
+    server.broadcast(fill("E1", "O1"));
+    server.broadcast(fill("E2", "O1"));
+    client.ws.send(JSON.stringify({ type: "replay", fromSequence: 1 })); // re-queues E1 and E2
+    await sleep(30);
+    server.broadcast(fill("E3", "O1")); // distinct fill: the oldest (E1) is dropped and reported
+    client.catchUp();
+    server.broadcast(fill("E4", "O2"));
+    await sleep(30);
+
+    expect(client.eventIds()).toEqual(["E2", "E3", "E4"]);
+    expect(client.dropNotices()).toEqual([{ type: "events_dropped", fromSequence: 1, toSequence: 1 }]);
+    expect(server.getStats().droppedMessages).toBe(3);
+
+    client.ws.close();
+    await server.close();
+  });
+
+  it("subscribed consumer replays events the server dropped for it", async () => {
+    const server = startWsServer(0, { backpressure: { maxQueuedMessages: 1 } });
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const connected = new Promise<WebSocket>((resolve) => server.wss.once("connection", resolve));
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine);
+    const gaps: unknown[] = [];
+    client.events.on("gap", (gap) => gaps.push(gap));
+    const serverSide = await connected;
+    await client.waitOpen();
+    client.subscribe({ orderIds: ["O1"] });
+    await sleep(20);
+
+    let buffered = Number.MAX_SAFE_INTEGER;
+    Object.defineProperty(serverSide, "bufferedAmount", { get: () => buffered });
+    ["E1", "E2", "E3"].forEach((id) => server.broadcast(fill(id, "O1")));
+    buffered = 0;
+    server.broadcast(fill("E4", "O1"));
+    await sleep(50);
+
+    expect(gaps).toEqual([{ fromSequence: 1, toSequence: 2 }]);
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(4);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("disconnects a slow client under the disconnect policy", async () => {
+    const server = startWsServer(0, { backpressure: { maxQueuedMessages: 2, policy: "disconnect" } });
+    const client = await slowClient(server);
+    const closed = new Promise((r) => client.ws.once("close", r));
+
+    ["E1", "E2", "E3"].forEach((id) => server.broadcast(fill(id, "O1")));
+    await closed;
+
+    expect(client.eventIds()).toEqual([]);
+    expect(server.getStats()).toMatchObject({ live: 0, droppedMessages: 0, slowConsumerDisconnects: 1 });
+    await server.close();
+  });
+});
+
+describe("acknowledgments and redelivery", () => {
+  it("acks processed events, including rejected ones, but not events whose apply threw", async () => {
+    const server = startWsServer(0);
+    const acks: unknown[] = [];
+    server.wss.on("connection", (ws) => ws.on("message", (data) => acks.push(JSON.parse(data.toString()))));
+
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine);
+    await client.waitOpen();
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 2 });
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "unknown", executedQuantity: 2 });
+    await sleep(30);
+    engine.applyExecution = () => {
+      throw new Error("engine unavailable");
+    };
+    server.broadcast({ type: "execution", eventId: "E3", orderId: "O1", executedQuantity: 2 });
+    await sleep(30);
+
+    expect(acks).toEqual([
+      { type: "ack", eventId: "E1", sequence: 1 },
+      { type: "ack", eventId: "E2", sequence: 2 },
+    ]);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("redelivers unacked events until the client acks them", async () => {
+    const server = startWsServer(0, { ackTimeoutMs: 20 });
+    const ws = new WebSocket(`ws://127.0.0.1:${server.getPort()}`);
+    const received: string[] = [];
+    ws.on("message", (data) => received.push((JSON.parse(data.toString()) as { eventId: string }).eventId));
+    await new Promise((r) => ws.once("open", r));
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 1 });
+    await sleep(10);
+    ws.send(JSON.stringify({ type: "ack", eventId: "E1", sequence: 1 }));
+    await sleep(60);
+
+    expect(received.filter((id) => id === "E1")).toHaveLength(1);
+    expect(received.filter((id) => id === "E2").length).toBeGreaterThan(1);
+    expect(server.getStats()).toMatchObject({ unackedEvents: 1 });
+    expect(server.getStats().redeliveries).toBeGreaterThan(0);
+
+    ws.send(JSON.stringify({ type: "ack", eventId: "E2", sequence: 2 }));
+    await sleep(10);
+    expect(server.getStats()).toMatchObject({ unackedEvents: 0 });
+
+    ws.close();
+    await server.close();
+  });
+
+  it("stops redelivering after maxRedeliveries", async () => {
+    const server = startWsServer(0, { ackTimeoutMs: 10, maxRedeliveries: 2 });
+    const ws = new WebSocket(`ws://127.0.0.1:${server.getPort()}`);
+    let received = 0;
+    ws.on("message", (data) => {
+      if (JSON.parse(data.toString()).type === "execution") received++;
+    });
+    await new Promise((r) => ws.once("open", r));
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+    await sleep(100);
+
+    expect(received).toBe(3);
+    expect(server.getStats()).toMatchObject({ unackedEvents: 0, redeliveries: 2 });
+
+    ws.close();
+    await server.close();
+  });
+
+  it("consumer converges through redeliveries without double-filling", async () => {
+    const server = startWsServer(0, { ackTimeoutMs: 15 });
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine);
+    await client.waitOpen();
+
+    let failNext = true;
+    const apply = engine.applyExecution.bind(engine);
+    engine.applyExecution = (evt) => {
+      if (failNext) {
+        failNext = false;
+        throw new Error("transient failure");
+      }
+      return apply(evt);
+    };
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 4 });
+    await sleep(80);
+
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(4);
+    expect(server.getStats()).toMatchObject({ unackedEvents: 0 });
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("circuit breaker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function brokenEngine() {
+    const engine = new TradingEngine();
+    engine.createAccount("default", 100);
+    engine.createOrder({ id: "O1", quantity: 10 });
+    const apply = engine.applyExecution.bind(engine);
+    const control = { broken: true, calls: 0 };
+    engine.applyExecution = (evt) => {
+      control.calls++;
+      if (control.broken) throw new Error("corrupted state");
+      return apply(evt);
+    };
+    return { engine, control };
+  }
+
+  it("buffers events while open and applies them in order once half-open trials succeed", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    const server = startWsServer(0);
+    const { engine, control } = brokenEngine();
+    const metrics = createConsumerMetrics();
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, {
+      metrics,
+      circuitBreaker: { cooldownMs: 5000, halfOpenSuccesses: 2 },
+    });
+    const transitions: string[] = [];
+    client.events.on("circuit", (t) => transitions.push(`${t.to}:${t.reason}`));
+    await client.waitOpen();
+
+    for (let i = 1; i <= 4; i++) {
+      server.broadcast({ type: "execution", eventId: `E${i}`, orderId: "O1", executedQuantity: 1 });
+    }
+    await until(() => metrics.received.get() === 5); // hello + 4 events
+
+    expect(client.getCircuitState()).toBe("open");
+    expect(control.calls).toBe(1); // E2..E4 held back
+    control.broken = false;
+    vi.advanceTimersByTime(4999);
+    expect(control.calls).toBe(1);
+    vi.advanceTimersByTime(1);
+
+    expect(transitions).toEqual(["open:errors", "half_open:cooldown_elapsed", "closed:trial_succeeded"]);
+    // E1, whose failure tripped the breaker, is retried first
+    expect(control.calls).toBe(5);
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(4);
+    expect(client.getLastSequence()).toBe(4);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("keeps retrying the tripping event while half-open trials fail", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    const server = startWsServer(0);
+    const { engine, control } = brokenEngine();
+    const metrics = createConsumerMetrics();
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, {
+      metrics,
+      circuitBreaker: { cooldownMs: 1000, halfOpenSuccesses: 1 },
+    });
+    await client.waitOpen();
+
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 2 });
+    await until(() => metrics.received.get() === 3);
+
+    vi.advanceTimersByTime(1000); // trial: E1 fails again
+    expect(control.calls).toBe(2);
+    expect(client.getCircuitState()).toBe("open");
+
+    control.broken = false;
+    vi.advanceTimersByTime(1000);
+    expect(client.getCircuitState()).toBe("closed");
+    expect(engine.getOrder("O1")?.filledQuantity).toBe(3);
+
+    await client.close();
+    await server.close();
+  });
+
+  it("opens on a high rejection rate", async () => {
+    const server = startWsServer(0);
+    const engine = new TradingEngine();
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, {
+      circuitBreaker: { minimumCalls: 3, failureRateThreshold: 0.5, cooldownMs: 1000 },
+    });
+    await client.waitOpen();
+    const opened = new Promise((resolve) => client.events.once("circuit", resolve));
+
+    for (let i = 1; i <= 3; i++) {
+      server.broadcast({ type: "execution", eventId: `E${i}`, orderId: "unknown", executedQuantity: 1 });
+    }
+
+    expect(await opened).toMatchObject({ to: "open", reason: "failure_rate" });
+
+    await client.close();
+    await server.close();
+  });
+
+  it("disconnects while open and resumes from a replay after the cooldown", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    const server = startWsServer(0);
+    const { engine, control } = brokenEngine();
+    const client = connectAndConsume(`ws://127.0.0.1:${server.getPort()}`, engine, {
+      circuitBreaker: { cooldownMs: 5000, halfOpenSuccesses: 1, pause: "disconnect" },
+      reconnect: false,
+    });
+    const states: ConnectionState[] = [];
+    client.events.on("state", (c) => states.push(c.to));
+    await client.waitOpen();
+
+    const paused = nextState(client, "reconnecting");
+    server.broadcast({ type: "execution", eventId: "E1", orderId: "O1", executedQuantity: 1 });
+    await paused;
+
+    server.broadcast({ type: "execution", eventId: "E2", orderId: "O1", executedQuantity: 2 });
+    control.broken = false;
+    const reopened = nextState(client, "open");
+    vi.advanceTimersByTime(5000);
+    await reopened;
+    await until(() => engine.getOrder("O1")?.filledQuantity === 3);
+
+    // E1 was never acked, so the replay on reconnect brings back E1 and E2
+    expect(states).toEqual(["open", "reconnecting", "connecting", "open"]);
+    expect(client.getCircuitState()).toBe("closed");
+
+    await client.close();
+    await server.close();
+  });
+});